@@ -0,0 +1,228 @@
+// Solves against player files without running the server, for debugging broken players.
+// deno run --allow-read --allow-write --allow-env --allow-net cli.ts <command> <player> [options]
+import { parseArgs } from "https://deno.land/std@0.224.0/cli/parse_args.ts";
+import { ensureDir } from "https://deno.land/std@0.224.0/fs/ensure_dir.ts";
+import { resolve } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { initializeWorkers } from "./src/workerPool.ts";
+import { CACHE_DIR, getPlayerFilePath } from "./src/playerCache.ts";
+import { getSolversForFile } from "./src/solver.ts";
+import { getPlayerSts } from "./src/handlers/getSts.ts";
+import { decryptWithSolvers } from "./src/handlers/decryptSignature.ts";
+import { parseSignatureCipher, resolveStreamUrl, type StreamToResolve } from "./src/handlers/resolveUrl.ts";
+import { errorBody, InvalidRequestError, SolverUnavailableError, StsNotFoundError, toHttpError } from "./src/errors.ts";
+import { configureLogger } from "./src/logger.ts";
+import { parseJsonObject } from "./src/validation.ts";
+import { SOLVER_EXECUTION_MODE } from "./src/solverExecution.ts";
+import { extractPlayerId, validateAndNormalizePlayerUrl } from "./src/utils.ts";
+import type { Solvers } from "./src/types.ts";
+
+const USAGE = `Usage: cli.ts <command> <player> [options]
+       cli.ts <command> --batch <file.jsonl> [--json]
+
+<player> is a player .js file, e.g. from the player cache, or a player URL.
+Cached players are read from disk, other URLs are fetched.
+
+Commands:
+  decrypt   --signature <s> and/or --n <n>
+  sts
+  resolve   --url <stream url> [--signature <s>] [--signature-key <key>] [--n <n>]
+            or --cipher <signatureCipher> [--n <n>]
+  inspect   The player's sts and solvers, and whether the solvers pass verification
+
+Options:
+  --json            Print JSON instead of plain text
+  --batch <file>    Run the command for every line of a JSONL file. Each line holds "player" and the
+                    fields of the matching HTTP request body: encrypted_signature, n_param,
+                    stream_url, signature_cipher and signature_key
+`;
+
+// Named like the fields of the HTTP request bodies, so batch files can reuse them
+interface CliRequest {
+    player: string;
+    encrypted_signature?: string;
+    n_param?: string;
+    stream_url?: string;
+    signature_cipher?: string;
+    signature_key?: string;
+}
+
+interface LoadedPlayer {
+    filePath: string;
+    playerUrl: string | null;
+}
+
+type Command = (request: CliRequest) => Promise<Record<string, unknown>>;
+
+// Anything that exists on disk is a player file, everything else has to be a player URL
+async function loadPlayer(player: string): Promise<LoadedPlayer> {
+    const filePath = resolve(player);
+    try {
+        if ((await Deno.stat(filePath)).isFile) {
+            return { filePath, playerUrl: null };
+        }
+    } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+            throw error;
+        }
+    }
+    let playerUrl: string;
+    try {
+        playerUrl = validateAndNormalizePlayerUrl(player);
+    } catch {
+        throw new InvalidRequestError(`Not a player file or URL: ${player}`, 'INVALID_PLAYER_URL');
+    }
+    return { filePath: await getPlayerFilePath(playerUrl), playerUrl };
+}
+
+async function loadSolvers(player: LoadedPlayer): Promise<Solvers> {
+    const solvers = await getSolversForFile(player.filePath, player.playerUrl ?? player.filePath);
+    if (!solvers) {
+        throw new SolverUnavailableError("Failed to generate solvers from player script");
+    }
+    return solvers;
+}
+
+const commands: Record<string, Command> = {
+    async decrypt(request) {
+        if (request.encrypted_signature === undefined && request.n_param === undefined) {
+            throw new InvalidRequestError("Pass a signature, an n value or both");
+        }
+        const solvers = await loadSolvers(await loadPlayer(request.player));
+        return { ...await decryptWithSolvers(solvers, request.encrypted_signature ?? '', request.n_param ?? '') };
+    },
+
+    async sts(request) {
+        const { sts } = await getPlayerSts((await loadPlayer(request.player)).filePath);
+        if (!sts) {
+            throw new StsNotFoundError();
+        }
+        return { sts };
+    },
+
+    async resolve(request) {
+        const { stream_url, signature_cipher, encrypted_signature, signature_key, n_param } = request;
+        let stream: StreamToResolve;
+        if (signature_cipher !== undefined) {
+            stream = { ...parseSignatureCipher(signature_cipher), n_param };
+        } else if (stream_url !== undefined) {
+            stream = { stream_url, encrypted_signature, signature_key, n_param };
+        } else {
+            throw new InvalidRequestError("Pass a stream url or a signatureCipher");
+        }
+        const solvers = await loadSolvers(await loadPlayer(request.player));
+        return { resolved_url: await resolveStreamUrl(solvers, stream) };
+    },
+
+    // Solver problems are part of the report instead of failing the command
+    async inspect(request) {
+        const player = await loadPlayer(request.player);
+        const stat = await Deno.stat(player.filePath);
+        const { sts } = await getPlayerSts(player.filePath);
+        const report: Record<string, unknown> = {
+            file: player.filePath,
+            player_url: player.playerUrl,
+            player_id: player.playerUrl ? extractPlayerId(player.playerUrl) : null,
+            size_bytes: stat.size,
+            sts,
+        };
+        try {
+            const solvers = await loadSolvers(player);
+            report.solvers = { sig: !!solvers.sig, n: !!solvers.n };
+            report.verified = true;
+        } catch (e) {
+            report.solvers = null;
+            report.verified = false;
+            report.error = errorBody(toHttpError(e));
+        }
+        return report;
+    },
+};
+
+// A single value is printed bare so it can be used in shell scripts, anything else as key: value lines
+function formatText(result: Record<string, unknown>): string {
+    const entries = Object.entries(result);
+    const text = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value);
+    if (entries.length === 1) {
+        return text(entries[0][1]);
+    }
+    return entries.map(([key, value]) => `${key}: ${text(value)}`).join('\n');
+}
+
+function formatError(e: unknown, json: boolean): string {
+    const body = errorBody(toHttpError(e));
+    return json ? JSON.stringify(body) : `error: ${body.code}: ${body.error}`;
+}
+
+function parseBatchLine(line: string): CliRequest {
+    const request = parseJsonObject(line) as Record<string, unknown>;
+    if (typeof request.player !== 'string') {
+        throw new InvalidRequestError("'player' is required");
+    }
+    for (const [key, value] of Object.entries(request)) {
+        if (typeof value !== 'string') {
+            throw new InvalidRequestError(`'${key}' must be a string`);
+        }
+    }
+    return request as unknown as CliRequest;
+}
+
+// Returns the number of failed lines. JSON output is one object per line, in input order
+async function runBatch(command: Command, file: string, json: boolean): Promise<number> {
+    const lines = (await Deno.readTextFile(file)).split('\n');
+    let failed = 0;
+    for (const [i, line] of lines.entries()) {
+        if (line.trim() === '') {
+            continue;
+        }
+        try {
+            const result = await command(parseBatchLine(line));
+            console.log(json ? JSON.stringify({ line: i + 1, result }) : `${i + 1}: ${formatText(result).replaceAll('\n', ', ')}`);
+        } catch (e) {
+            failed++;
+            console.log(json ? JSON.stringify({ line: i + 1, error: errorBody(toHttpError(e)) }) : `${i + 1}: ${formatError(e, false)}`);
+        }
+    }
+    return failed;
+}
+
+const args = parseArgs(Deno.args, {
+    string: ['signature', 'n', 'url', 'cipher', 'signature-key', 'batch'],
+    boolean: ['json', 'help'],
+});
+const [commandName, player] = args._.map(String);
+const command = commands[commandName];
+if (args.help || !command || (!player && !args.batch)) {
+    console.error(USAGE);
+    Deno.exit(args.help ? 0 : 2);
+}
+
+// Logs would get mixed into the output, so they go to stderr and only warnings are shown unless LOG_LEVEL is set
+configureLogger({ stderr: true, level: Deno.env.get("LOG_LEVEL") ? undefined : 'warn' });
+await ensureDir(CACHE_DIR);
+initializeWorkers({ sandbox: SOLVER_EXECUTION_MODE === 'sandbox' });
+
+if (args.batch) {
+    const failed = await runBatch(command, args.batch, args.json);
+    Deno.exit(failed > 0 ? 1 : 0);
+}
+
+try {
+    const result = await command({
+        player,
+        encrypted_signature: args.signature,
+        n_param: args.n,
+        stream_url: args.url,
+        signature_cipher: args.cipher,
+        signature_key: args['signature-key'],
+    });
+    console.log(args.json ? JSON.stringify(result, null, 2) : formatText(result));
+    Deno.exit(0);
+} catch (e) {
+    // With --json the error goes to stdout too, so scripts always get something to parse
+    if (args.json) {
+        console.log(formatError(e, true));
+    } else {
+        console.error(formatError(e, false));
+    }
+    Deno.exit(1);
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+// Writes the request schemas from src/schemas.ts into docs/swagger.yaml.
+// Run after changing a schema: deno run --allow-read --allow-write --allow-env scripts/generate-swagger.ts
+// With --check it only reports whether the file is up to date, for CI.
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { requestSchemas } from "../src/schemas.ts";
+
+const SWAGGER_PATH = join(Deno.cwd(), "docs/swagger.yaml");
+const BEGIN_MARKER = "    # BEGIN generated from src/schemas.ts by scripts/generate-swagger.ts, do not edit";
+const END_MARKER = "    # END generated";
+
+function yamlScalar(value: string | number | boolean): string {
+    if (typeof value !== "string") {
+        return String(value);
+    }
+    const plain = /^[A-Za-z_][A-Za-z0-9_ ,.()/-]*$/.test(value) && !/^(true|false|null|yes|no|on|off)$/i.test(value);
+    return plain ? value : `'${value.replaceAll("'", "''")}'`;
+}
+
+// Schemas nested in another one, like the batch items, are written as a $ref to their own entry
+const schemaNames = new Map<unknown, string>(Object.entries(requestSchemas).map(([name, schema]) => [schema, name]));
+
+function toYaml(value: unknown, indent: number): string[] {
+    const pad = " ".repeat(indent);
+    if (Array.isArray(value)) {
+        return value.map((item) => `${pad}- ${yamlScalar(item)}`);
+    }
+    return Object.entries(value as Record<string, unknown>).flatMap(([key, child]) => {
+        if (schemaNames.has(child)) {
+            return [`${pad}${key}:`, `${pad}  $ref: '#/components/schemas/${schemaNames.get(child)}'`];
+        }
+        if (typeof child === "object" && child !== null) {
+            return [`${pad}${key}:`, ...toYaml(child, indent + 2)];
+        }
+        return [`${pad}${key}: ${yamlScalar(child as string | number | boolean)}`];
+    });
+}
+
+const swagger = await Deno.readTextFile(SWAGGER_PATH);
+const begin = swagger.indexOf(BEGIN_MARKER);
+const end = swagger.indexOf(END_MARKER);
+if (begin === -1 || end === -1 || end < begin) {
+    console.error(`Could not find the generated section markers in ${SWAGGER_PATH}`);
+    Deno.exit(1);
+}
+
+const generated = Object.entries(requestSchemas).flatMap(([name, schema]) => [`    ${name}:`, ...toYaml(schema, 6)]);
+const updated = [swagger.slice(0, begin) + BEGIN_MARKER, ...generated, swagger.slice(end)].join("\n");
+
+if (Deno.args.includes("--check")) {
+    if (updated !== swagger) {
+        console.error(`${SWAGGER_PATH} is out of date, run scripts/generate-swagger.ts`);
+        Deno.exit(1);
+    }
+    console.log(`${SWAGGER_PATH} is up to date`);
+} else {
+    await Deno.writeTextFile(SWAGGER_PATH, updated);
+    console.log(`Updated ${SWAGGER_PATH}`);
+}
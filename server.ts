@@ -1,17 +1,74 @@
-import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { initializeWorkers } from "./src/workerPool.ts";
 import { initializeCache } from "./src/playerCache.ts";
+import { initializePreprocessedCache } from "./src/preprocessedCache.ts";
 import { handleDecryptSignature } from "./src/handlers/decryptSignature.ts";
+import { handleBatchDecryptSignature } from "./src/handlers/batchDecryptSignature.ts";
 import { handleGetSts } from "./src/handlers/getSts.ts";
 import { handleResolveUrl } from "./src/handlers/resolveUrl.ts";
+import { handlePlayerInfo } from "./src/handlers/playerInfo.ts";
+import { handlePrewarm } from "./src/handlers/prewarm.ts";
+import { handleReloadApiKeys } from "./src/handlers/reloadApiKeys.ts";
+import { handleEvictPlayers, handleListPlayers, handleUploadPlayer } from "./src/handlers/adminPlayers.ts";
+import { handleSelfTest } from "./src/handlers/selfTest.ts";
+import { handleReloadSettings } from "./src/handlers/reloadSettings.ts";
+import { handlePeerStorage } from "./src/handlers/peerStorage.ts";
+import { acceptWebSocket } from "./src/websocket.ts";
+import { startPrewarming } from "./src/prewarm.ts";
+import { handleShutdownSignals } from "./src/shutdown.ts";
+import { handleReloadSignal } from "./src/settings.ts";
+import { importPlayersFromDir } from "./src/playerImport.ts";
+import { startCacheEviction } from "./src/cacheEviction.ts";
+import { handleHealthz, handleReadyz } from "./src/handlers/health.ts";
+import { isInitialized, isShuttingDown, markInitialized } from "./src/health.ts";
 import { withMetrics } from "./src/middleware.ts";
-import { withValidation } from "./src/validation.ts";
-import { registry } from "./src/metrics.ts";
+import { logger, resolveRequestId, runWithRequestId } from "./src/logger.ts";
+import { withRequestBody, withValidation } from "./src/validation.ts";
+import { getClientIp, withRateLimit } from "./src/rateLimit.ts";
+import { apiKeyRequests, registry } from "./src/metrics.ts";
+import { authenticate, authenticatePeer, loadApiKeys } from "./src/auth.ts";
+import { AuthError, errorResponse, InvalidRequestError, NotFoundError, ServiceStartingError, ShuttingDownError } from "./src/errors.ts";
+import { SOLVER_EXECUTION_MODE } from "./src/solverExecution.ts";
 import type { ApiRequest, RequestContext } from "./src/types.ts";
 
-const API_TOKEN = Deno.env.get("API_TOKEN");
+type Handler = (ctx: RequestContext) => Promise<Response>;
 
-async function baseHandler(req: Request): Promise<Response> {
+function getRouteHandler(pathname: string, method: string): Handler | null {
+    if (pathname === '/decrypt_signature') {
+        return handleDecryptSignature;
+    } else if (pathname === '/batch_decrypt_signature') {
+        return handleBatchDecryptSignature;
+    } else if (pathname === '/get_sts') {
+        return handleGetSts;
+    } else if (pathname === '/resolve_url') {
+        return handleResolveUrl;
+    } else if (pathname === '/player_info') {
+        return handlePlayerInfo;
+    } else if (pathname === '/admin/prewarm') {
+        return handlePrewarm;
+    } else if (pathname === '/admin/reload_keys') {
+        return handleReloadApiKeys;
+    } else if (pathname === '/admin/reload') {
+        return handleReloadSettings;
+    } else if (pathname === '/admin/selftest') {
+        return handleSelfTest;
+    } else if (pathname === '/admin/players' && method === 'GET') {
+        return handleListPlayers;
+    } else if (pathname === '/admin/players' && method === 'DELETE') {
+        return handleEvictPlayers;
+    } else if (pathname === '/admin/players' && method === 'PUT') {
+        return handleUploadPlayer;
+    }
+    return null;
+}
+
+// Shared by HTTP requests and /ws frames, so both are validated, limited and measured the same way.
+// Only HTTP requests still have a body to read, /ws frames come with theirs parsed.
+function withMiddleware(handle: Handler, { readBody = false } = {}): Handler {
+    const validated = withValidation(handle);
+    return withMetrics(withRateLimit(readBody ? withRequestBody(validated) : validated));
+}
+
+async function baseHandler(req: Request, info: Deno.ServeHandlerInfo): Promise<Response> {
     const { pathname } = new URL(req.url);
 
     if (req.method === "GET") {
@@ -32,6 +89,12 @@ async function baseHandler(req: Request): Promise<Response> {
                 );
             }
         }
+        if (pathname === "/healthz") {
+            return handleHealthz();
+        }
+        if (pathname === "/readyz") {
+            return await handleReadyz();
+        }
         if (pathname === "/swagger.yaml") {
             try {
                 const file = await Deno.readFile("./docs/swagger.yaml");
@@ -54,45 +117,82 @@ async function baseHandler(req: Request): Promise<Response> {
         });
     }
 
-    const authHeader = req.headers.get("authorization");
-    if (API_TOKEN && API_TOKEN !== "") {
-        if (authHeader !== API_TOKEN) {
-            const error = authHeader ? 'Invalid API token' : 'Missing API token';
-            return new Response(JSON.stringify({ error }), { status: 401, headers: { "Content-Type": "application/json" } });
+    if (pathname.startsWith('/internal/')) {
+        const peerAuth = await authenticatePeer(req);
+        if (!peerAuth.ok) {
+            return errorResponse(new AuthError(peerAuth.error, peerAuth.status));
         }
+        return await handlePeerStorage(req);
     }
 
-    let handle: (ctx: RequestContext) => Promise<Response>;
+    const auth = await authenticate(req, pathname);
+    if (!auth.ok) {
+        if (auth.keyName) {
+            // Unknown paths are folded together, each would add a series otherwise
+            const pathnameLabel = pathname === '/ws' || getRouteHandler(pathname, req.method) ? pathname : 'other';
+            apiKeyRequests.labels({ key_name: auth.keyName, pathname: pathnameLabel, status: String(auth.status) }).inc();
+        }
+        return errorResponse(new AuthError(auth.error, auth.status));
+    }
 
-    if (pathname === '/decrypt_signature') {
-        handle = handleDecryptSignature;
-    } else if (pathname === '/get_sts') {
-        handle = handleGetSts;
-    } else if (pathname === '/resolve_url') {
-        handle = handleResolveUrl;
-    } else {
-        return new Response(JSON.stringify({ error: 'Not Found' }), { status: 404, headers: { "Content-Type": "application/json" } });
+    if (!isInitialized()) {
+        return errorResponse(new ServiceStartingError());
     }
+    // New connections are refused by then, this is for clients reusing a kept alive one
+    if (isShuttingDown()) {
+        return errorResponse(new ShuttingDownError());
+    }
+
+    const clientIp = getClientIp(req, (info.remoteAddr as Deno.NetAddr).hostname);
 
-    let body;
-    try {
-        body = await req.json() as ApiRequest;
-    } catch {
-        return new Response(JSON.stringify({ error: 'Invalid JSON body' }), { status: 400, headers: { "Content-Type": "application/json" } });
+    if (pathname === '/ws') {
+        if (req.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+            return errorResponse(new InvalidRequestError("Expected a WebSocket upgrade request"));
+        }
+        return acceptWebSocket(req, { apiKeyName: auth.keyName, clientIp }, (opPathname, ctx) => {
+            return withMiddleware(getRouteHandler(opPathname, 'POST')!)(ctx);
+        });
     }
-    const ctx: RequestContext = { req, body };
 
-    const composedHandler = withValidation(withMetrics(handle));
-    return await composedHandler(ctx);
+    const handle = getRouteHandler(pathname, req.method);
+    if (!handle) {
+        return errorResponse(new NotFoundError());
+    }
+
+    const ctx: RequestContext = { req, body: {} as ApiRequest, apiKeyName: auth.keyName, clientIp };
+
+    return await withMiddleware(handle, { readBody: true })(ctx);
 }
 
-const handler = baseHandler;
+async function handler(req: Request, info: Deno.ServeHandlerInfo): Promise<Response> {
+    const requestId = resolveRequestId(req.headers.get("x-request-id"));
+    const response = await runWithRequestId(requestId, () => baseHandler(req, info));
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+}
 
 const port = Deno.env.get("PORT") || 8001;
 const host = Deno.env.get("HOST") || '0.0.0.0';
 
+await loadApiKeys();
+
+// Start listening right away so /healthz and /readyz can report on startup
+const server = Deno.serve({
+    port: Number(port),
+    hostname: host,
+    onListen: () => logger.info(`Server listening on http://${host}:${port}`),
+}, handler);
+handleShutdownSignals(server);
+handleReloadSignal();
+
 await initializeCache();
-initializeWorkers();
+await initializePreprocessedCache();
+await importPlayersFromDir();
+initializeWorkers({ sandbox: SOLVER_EXECUTION_MODE === 'sandbox' });
+markInitialized();
+startCacheEviction();
+
+// Runs in the background, players are warmed at low priority while live traffic is served
+startPrewarming();
 
-console.log(`Server listening on http://${host}:${port}`);
-await serve(handler, { port: Number(port), hostname: host });
\ No newline at end of file
+await server.finished;
\ No newline at end of file
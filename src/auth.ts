@@ -0,0 +1,179 @@
+import { timingSafeEqual } from "https://deno.land/std@0.224.0/crypto/timing_safe_equal.ts";
+import type { ApiKey } from "./types.ts";
+import { logger } from "./logger.ts";
+
+// Keys are read from API_KEYS_FILE (a JSON array of ApiKey) or API_KEYS (the same JSON inline).
+// The older single API_TOKEN / ADMIN_API_TOKEN settings are turned into keys named "default" and "admin".
+// All of them are read again on every reload, so a settings reload can change them too.
+
+interface LoadedApiKey {
+    name: string;
+    keyHash: Uint8Array;
+    enabled: boolean;
+    endpoints: string[] | null;
+    expiresAt: number | null;
+    rateLimit: number | null;
+}
+
+export type AuthResult =
+    | { ok: true; keyName: string }
+    | { ok: false; status: 401 | 403; error: string; keyName?: string };
+
+let apiKeys: LoadedApiKey[] = [];
+
+async function hashKey(key: string): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)));
+}
+
+function parseApiKeys(json: string, source: string): ApiKey[] {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+        throw new Error(`${source} must be a JSON array of keys`);
+    }
+    for (const [i, key] of parsed.entries()) {
+        if (typeof key?.name !== 'string' || typeof key?.key !== 'string' || key.key === '') {
+            throw new Error(`${source}: key ${i} needs a 'name' and a non-empty 'key'`);
+        }
+        if (key.endpoints !== undefined && !(Array.isArray(key.endpoints) && key.endpoints.every((e: unknown) => typeof e === 'string'))) {
+            throw new Error(`${source}: key '${key.name}' has invalid 'endpoints'`);
+        }
+        if (key.expires_at !== undefined && isNaN(Date.parse(key.expires_at))) {
+            throw new Error(`${source}: key '${key.name}' has an invalid 'expires_at'`);
+        }
+        if (key.rate_limit !== undefined && !(typeof key.rate_limit === 'number' && key.rate_limit >= 0)) {
+            throw new Error(`${source}: key '${key.name}' has an invalid 'rate_limit'`);
+        }
+    }
+    return parsed;
+}
+
+async function readApiKeys(): Promise<ApiKey[]> {
+    const keys: ApiKey[] = [];
+
+    const apiToken = Deno.env.get("API_TOKEN");
+    if (apiToken) {
+        keys.push({ name: 'default', key: apiToken });
+    }
+    const adminToken = Deno.env.get("ADMIN_API_TOKEN");
+    if (adminToken) {
+        keys.push({ name: 'admin', key: adminToken, endpoints: ['/admin/*'] });
+    }
+
+    const inlineKeys = Deno.env.get("API_KEYS");
+    if (inlineKeys) {
+        keys.push(...parseApiKeys(inlineKeys, 'API_KEYS'));
+    }
+    const keysFile = Deno.env.get("API_KEYS_FILE");
+    if (keysFile) {
+        keys.push(...parseApiKeys(await Deno.readTextFile(keysFile), keysFile));
+    }
+    return keys;
+}
+
+// Loads (or reloads) the key store. On failure the previously loaded keys stay active.
+export async function loadApiKeys(): Promise<number> {
+    const keys = await readApiKeys();
+    apiKeys = await Promise.all(keys.map(async (key): Promise<LoadedApiKey> => ({
+        name: key.name,
+        keyHash: await hashKey(key.key),
+        enabled: key.enabled ?? true,
+        endpoints: key.endpoints ?? null,
+        expiresAt: key.expires_at ? Date.parse(key.expires_at) : null,
+        rateLimit: key.rate_limit ?? null,
+    })));
+    logger.info(`Loaded ${apiKeys.length} API keys`);
+    return apiKeys.length;
+}
+
+// null when the key has no rate_limit of its own
+export function getKeyRateLimit(keyName: string): number | null {
+    return apiKeys.find(k => k.name === keyName)?.rateLimit ?? null;
+}
+
+function isAdminEndpoint(pathname: string): boolean {
+    return pathname.startsWith('/admin/');
+}
+
+// When every key is limited to the admin API (e.g. only ADMIN_API_TOKEN is set), the other
+// endpoints stay open like they are without any keys
+function publicEndpointsNeedKey(): boolean {
+    return apiKeys.some(key => !key.endpoints || key.endpoints.some(e => !isAdminEndpoint(e)));
+}
+
+// Keys without an endpoint list may use everything except the admin API.
+// Entries ending in * match by prefix, e.g. /admin/*
+function isEndpointAllowed(key: LoadedApiKey, pathname: string): boolean {
+    if (!key.endpoints) {
+        return !isAdminEndpoint(pathname);
+    }
+    return key.endpoints.some(pattern =>
+        pattern.endsWith('*') ? pathname.startsWith(pattern.slice(0, -1)) : pathname === pattern
+    );
+}
+
+// Sibling instances call /internal/* with the shared PEER_TOKEN instead of an API key
+export async function authenticatePeer(req: Request): Promise<AuthResult> {
+    const peerToken = Deno.env.get("PEER_TOKEN");
+    if (!peerToken) {
+        return { ok: false, status: 403, error: 'Peer API is disabled' };
+    }
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+        return { ok: false, status: 401, error: 'Missing API token' };
+    }
+    if (!timingSafeEqual(await hashKey(authHeader), await hashKey(peerToken))) {
+        return { ok: false, status: 401, error: 'Invalid peer token' };
+    }
+    return { ok: true, keyName: 'peer' };
+}
+
+// For connections that authenticate once and then call several endpoints, like /ws.
+// Looked up on every call, so disabling or reloading a key applies to open connections too.
+export function isKeyAllowed(keyName: string, pathname: string): boolean {
+    if (keyName === 'anonymous') {
+        return !publicEndpointsNeedKey() && !isAdminEndpoint(pathname);
+    }
+    const key = apiKeys.find(k => k.name === keyName);
+    if (!key || !key.enabled || (key.expiresAt !== null && Date.now() >= key.expiresAt)) {
+        return false;
+    }
+    return isEndpointAllowed(key, pathname);
+}
+
+export async function authenticate(req: Request, pathname: string): Promise<AuthResult> {
+    const adminEndpoint = isAdminEndpoint(pathname);
+    if (!adminEndpoint && !publicEndpointsNeedKey()) {
+        return { ok: true, keyName: 'anonymous' };
+    }
+    if (adminEndpoint && !apiKeys.some(key => key.endpoints?.some(e => isAdminEndpoint(e)))) {
+        return { ok: false, status: 403, error: 'Admin API is disabled' };
+    }
+
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+        return { ok: false, status: 401, error: 'Missing API token' };
+    }
+
+    // Compare against every key in constant time, without stopping at the first match
+    const tokenHash = await hashKey(authHeader);
+    let match: LoadedApiKey | undefined;
+    for (const key of apiKeys) {
+        if (timingSafeEqual(key.keyHash, tokenHash) && !match) {
+            match = key;
+        }
+    }
+
+    if (!match) {
+        return { ok: false, status: 401, error: 'Invalid API token' };
+    }
+    if (!match.enabled) {
+        return { ok: false, status: 403, error: 'API key is disabled', keyName: match.name };
+    }
+    if (match.expiresAt !== null && Date.now() >= match.expiresAt) {
+        return { ok: false, status: 401, error: 'API key has expired', keyName: match.name };
+    }
+    if (!isEndpointAllowed(match, pathname)) {
+        return { ok: false, status: 403, error: `API key is not allowed to access ${pathname}`, keyName: match.name };
+    }
+    return { ok: true, keyName: match.name };
+}
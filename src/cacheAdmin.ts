@@ -0,0 +1,169 @@
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+    CACHE_DIR,
+    getKnownPlayerUrl,
+    getPlayerCacheKeyFromPath,
+    getPlayerCachePath,
+    playerStorage,
+    updatePlayerCacheSize,
+} from "./playerCache.ts";
+import {
+    PREPROCESSED_CACHE_DIR,
+    hasPreprocessedOnDisk,
+    listPreprocessedOnDisk,
+    preprocessedCache,
+    removePreprocessedFromDisk,
+} from "./preprocessedCache.ts";
+import { solverCache } from "./solverCache.ts";
+import { stsCache } from "./stsCache.ts";
+import { removePlayerResults, resultCache } from "./resultCache.ts";
+import { quarantinedPlayers } from "./solverVerification.ts";
+import { cacheSize } from "./metrics.ts";
+import { logger } from "./logger.ts";
+import { extractPlayerId } from "./utils.ts";
+import type { CachedPlayer } from "./types.ts";
+
+const ignorePlayerScriptRegion = Deno.env.get("IGNORE_SCRIPT_REGION") === "true";
+
+// Every in-memory tier is keyed by the player file path
+const memoryTiers = { preprocessed: preprocessedCache, solver: solverCache, sts: stsCache, quarantined: quarantinedPlayers };
+
+function playerIdForKey(cacheKey: string, playerUrl: string | undefined): string | null {
+    if (playerUrl) {
+        return extractPlayerId(playerUrl);
+    }
+    // Without region hashing the cache key is the player ID itself
+    return ignorePlayerScriptRegion ? cacheKey : null;
+}
+
+export async function listCachedPlayers(): Promise<CachedPlayer[]> {
+    const players = new Map<string, CachedPlayer>();
+    const entryFor = (filePath: string): CachedPlayer => {
+        let player = players.get(filePath);
+        if (!player) {
+            const cacheKey = getPlayerCacheKeyFromPath(filePath);
+            const playerUrl = getKnownPlayerUrl(cacheKey);
+            player = {
+                cache_key: cacheKey,
+                player_id: playerIdForKey(cacheKey, playerUrl),
+                player_url: playerUrl ?? null,
+                size_bytes: null,
+                last_access: null,
+                tiers: [],
+            };
+            players.set(filePath, player);
+        }
+        return player;
+    };
+    const touch = (player: CachedPlayer, time: number | undefined) => {
+        if (time && (!player.last_access || time > Date.parse(player.last_access))) {
+            player.last_access = new Date(time).toISOString();
+        }
+    };
+
+    // Temp files of writes still going on are not players yet
+    for (const fileName of await playerStorage.list(CACHE_DIR)) {
+        if (!fileName.endsWith('.js')) {
+            continue;
+        }
+        const filePath = join(CACHE_DIR, fileName);
+        const stat = await playerStorage.stat(filePath);
+        // Evicted since the directory was read
+        if (!stat) {
+            continue;
+        }
+        const player = entryFor(filePath);
+        player.tiers.push('player_disk');
+        player.size_bytes = stat.size;
+        touch(player, stat.lastAccessed);
+    }
+
+    for (const filePath of await listPreprocessedOnDisk()) {
+        entryFor(filePath).tiers.push('preprocessed_disk');
+    }
+
+    for (const [tier, cache] of Object.entries(memoryTiers)) {
+        for (const { key, lastAccess } of cache.list()) {
+            const player = entryFor(key);
+            player.tiers.push(tier);
+            touch(player, lastAccess);
+        }
+    }
+
+    return Array.from(players.values());
+}
+
+// The tiers holding one player, named like in listCachedPlayers. Does not count as an access.
+export async function getPlayerTiers(cacheKey: string): Promise<string[]> {
+    const filePath = getPlayerCachePath(cacheKey);
+    const tiers: string[] = [];
+    if (await playerStorage.stat(filePath)) {
+        tiers.push('player_disk');
+    }
+    if (await hasPreprocessedOnDisk(filePath)) {
+        tiers.push('preprocessed_disk');
+    }
+    for (const [tier, cache] of Object.entries(memoryTiers)) {
+        if (cache.has(filePath)) {
+            tiers.push(tier);
+        }
+    }
+    return tiers;
+}
+
+// Drops a player from every tier, so the next request fetches and preprocesses it from scratch
+export async function evictPlayer(cacheKey: string): Promise<boolean> {
+    const filePath = getPlayerCachePath(cacheKey);
+    let found = false;
+
+    for (const cache of Object.values(memoryTiers)) {
+        found = cache.delete(filePath) || found;
+    }
+    removePlayerResults(filePath);
+
+    const onDisk = await listPreprocessedOnDisk();
+    if (onDisk.has(filePath)) {
+        await removePreprocessedFromDisk(filePath);
+        found = true;
+    }
+
+    if (await playerStorage.delete(filePath)) {
+        found = true;
+        await updatePlayerCacheSize();
+    }
+
+    logger.info(`Evicted player from cache`, { cache_key: cacheKey, found });
+    return found;
+}
+
+export async function purgeAllPlayers(): Promise<number> {
+    const players = await listCachedPlayers();
+
+    for (const cache of Object.values(memoryTiers)) {
+        cache.clear();
+    }
+    resultCache.clear();
+    for (const dir of [CACHE_DIR, PREPROCESSED_CACHE_DIR]) {
+        let fileNames: string[];
+        try {
+            fileNames = await playerStorage.list(dir);
+        } catch (error) {
+            // No preprocessed directory when the disk tier is off
+            if (error instanceof Deno.errors.NotFound) {
+                continue;
+            }
+            throw error;
+        }
+        // Temp files are left to the writes about to rename them, files gone already are skipped by delete()
+        for (const fileName of fileNames) {
+            if (!fileName.endsWith('.tmp')) {
+                await playerStorage.delete(join(dir, fileName));
+            }
+        }
+    }
+    cacheSize.labels({ cache_name: 'player' }).set(0);
+    cacheSize.labels({ cache_name: 'preprocessed_disk' }).set(0);
+
+    logger.info(`Purged ${players.length} players from cache`);
+    return players.length;
+}
@@ -0,0 +1,34 @@
+import { evictPlayerCache } from "./playerCache.ts";
+import { evictPreprocessedDiskCache } from "./preprocessedCache.ts";
+import { logger } from "./logger.ts";
+
+const CACHE_EVICTION_INTERVAL_SECONDS = parseInt(Deno.env.get("CACHE_EVICTION_INTERVAL_SECONDS") || "", 10) || 600;
+
+let running = false;
+let timer: ReturnType<typeof setInterval> | undefined;
+
+// Also run right away after a settings reload, so lowered limits apply at once
+export async function runEviction() {
+    // A slow disk can make one pass outlast the interval, don't stack them
+    if (running) {
+        return;
+    }
+    running = true;
+    try {
+        await evictPlayerCache();
+        await evictPreprocessedDiskCache();
+    } catch (e) {
+        logger.error(`Cache eviction failed`, { error: e });
+    } finally {
+        running = false;
+    }
+}
+
+// initializeCache and initializePreprocessedCache do the first pass at startup
+export function startCacheEviction() {
+    timer = setInterval(runEviction, CACHE_EVICTION_INTERVAL_SECONDS * 1000);
+}
+
+export function stopCacheEviction() {
+    clearInterval(timer);
+}
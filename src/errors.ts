@@ -0,0 +1,141 @@
+// Stable, machine readable error codes. Clients should branch on these, not on the message.
+export type ErrorCode =
+    | 'INVALID_REQUEST'
+    | 'INVALID_PLAYER_URL'
+    | 'INVALID_STREAM_URL'
+    | 'UNAUTHORIZED'
+    | 'FORBIDDEN'
+    | 'NOT_FOUND'
+    | 'PAYLOAD_TOO_LARGE'
+    | 'RATE_LIMITED'
+    | 'SERVICE_STARTING'
+    | 'SHUTTING_DOWN'
+    | 'QUEUE_FULL'
+    | 'PLAYER_FETCH_FAILED'
+    | 'PLAYER_NOT_AVAILABLE'
+    | 'PLAYER_PREPROCESS_FAILED'
+    | 'SOLVER_UNAVAILABLE'
+    | 'STS_NOT_FOUND'
+    | 'PLAYER_QUARANTINED'
+    | 'INTERNAL_ERROR';
+
+export interface ErrorBody {
+    error: string;
+    code: ErrorCode;
+    // Whether the same request may succeed when sent again later
+    retryable: boolean;
+}
+
+// Errors that know which HTTP status, code (and headers) they should be reported with.
+// Anything else thrown from a handler is reported as a 500 INTERNAL_ERROR by withMetrics.
+export class HttpError extends Error {
+    constructor(message: string, public status: number, public code: ErrorCode, public retryable = false, public headers: Record<string, string> = {}) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export class InvalidRequestError extends HttpError {
+    constructor(message: string, code: 'INVALID_REQUEST' | 'INVALID_PLAYER_URL' | 'INVALID_STREAM_URL' = 'INVALID_REQUEST') {
+        super(message, 400, code);
+    }
+}
+
+export class AuthError extends HttpError {
+    constructor(message: string, status: 401 | 403) {
+        super(message, status, status === 401 ? 'UNAUTHORIZED' : 'FORBIDDEN');
+    }
+}
+
+export class NotFoundError extends HttpError {
+    constructor(message = 'Not Found') {
+        super(message, 404, 'NOT_FOUND');
+    }
+}
+
+export class PayloadTooLargeError extends HttpError {
+    constructor(maxBytes: number) {
+        super(`Request body is larger than ${maxBytes} bytes`, 413, 'PAYLOAD_TOO_LARGE');
+    }
+}
+
+export class RateLimitError extends HttpError {
+    constructor(retryAfterSeconds: number) {
+        super('Rate limit exceeded', 429, 'RATE_LIMITED', true, { "Retry-After": String(retryAfterSeconds) });
+    }
+}
+
+export class ServiceStartingError extends HttpError {
+    constructor() {
+        super('Service is starting', 503, 'SERVICE_STARTING', true, { "Retry-After": "1" });
+    }
+}
+
+// Sent for requests that arrive on an open connection after a shutdown started. Another instance can take them
+export class ShuttingDownError extends HttpError {
+    constructor() {
+        super('Service is shutting down', 503, 'SHUTTING_DOWN', true, { "Retry-After": "1" });
+    }
+}
+
+export class WorkerPoolFullError extends HttpError {
+    constructor(retryAfterSeconds: number) {
+        super("Worker queue is full, try again later", 503, 'QUEUE_FULL', true, { "Retry-After": String(retryAfterSeconds) });
+    }
+}
+
+// Upstream player fetch failed: 504 when it timed out, 502 for anything else.
+// Retryable unless upstream gave a definite answer like a 404.
+export class PlayerFetchError extends HttpError {
+    constructor(message: string, status: 502 | 504, retryable: boolean) {
+        super(message, status, 'PLAYER_FETCH_FAILED', retryable);
+    }
+}
+
+// OFFLINE_MODE is set and the player is not in the cache. Retrying only helps once it was uploaded
+export class PlayerNotAvailableError extends HttpError {
+    constructor(playerUrl: string) {
+        super(`Player is not available: ${playerUrl} is not cached and fetching is disabled by OFFLINE_MODE`, 404, 'PLAYER_NOT_AVAILABLE');
+    }
+}
+
+export class PlayerPreprocessError extends HttpError {
+    constructor(message: string) {
+        super(message, 500, 'PLAYER_PREPROCESS_FAILED');
+    }
+}
+
+// The player script was processed, but the sig or n function could not be found in it
+export class SolverUnavailableError extends HttpError {
+    constructor(message: string) {
+        super(message, 422, 'SOLVER_UNAVAILABLE');
+    }
+}
+
+// The solvers were extracted but gave wrong answers on test inputs. See solverVerification.ts
+export class PlayerQuarantinedError extends HttpError {
+    constructor(message: string) {
+        super(message, 422, 'PLAYER_QUARANTINED');
+    }
+}
+
+export class StsNotFoundError extends HttpError {
+    constructor() {
+        super("Timestamp not found in player script", 404, 'STS_NOT_FOUND');
+    }
+}
+
+export function toHttpError(e: unknown): HttpError {
+    if (e instanceof HttpError) {
+        return e;
+    }
+    return new HttpError(e instanceof Error ? e.message : String(e), 500, 'INTERNAL_ERROR');
+}
+
+export function errorBody(error: HttpError): ErrorBody {
+    return { error: error.message, code: error.code, retryable: error.retryable };
+}
+
+export function errorResponse(error: HttpError): Response {
+    return new Response(JSON.stringify(errorBody(error)), { status: error.status, headers: { "Content-Type": "application/json", ...error.headers } });
+}
@@ -0,0 +1,118 @@
+import { PlayerFetchError } from "./errors.ts";
+import { playerScriptFetches } from "./metrics.ts";
+import { playerIdLabel } from "./metricLabels.ts";
+import { logger } from "./logger.ts";
+import { parseByteSize, readStreamLimited } from "./utils.ts";
+
+// The connect timeout runs until the response headers arrive, the read timeout covers the body
+const PLAYER_FETCH_CONNECT_TIMEOUT_MS = parseInt(Deno.env.get("PLAYER_FETCH_CONNECT_TIMEOUT_MS") || "", 10) || 5000;
+const PLAYER_FETCH_READ_TIMEOUT_MS = parseInt(Deno.env.get("PLAYER_FETCH_READ_TIMEOUT_MS") || "", 10) || 15000;
+const retriesEnv = parseInt(Deno.env.get("PLAYER_FETCH_RETRIES") || "", 10);
+const PLAYER_FETCH_RETRIES = isNaN(retriesEnv) ? 2 : retriesEnv;
+const PLAYER_FETCH_RETRY_DELAY_MS = parseInt(Deno.env.get("PLAYER_FETCH_RETRY_DELAY_MS") || "", 10) || 500;
+const PLAYER_FETCH_MAX_BYTES = parseByteSize(Deno.env.get("PLAYER_FETCH_MAX_BYTES") || "") || 20 * 1024 * 1024;
+const PLAYER_FETCH_USER_AGENT = Deno.env.get("PLAYER_FETCH_USER_AGENT");
+const PLAYER_FETCH_PROXY = Deno.env.get("PLAYER_FETCH_PROXY");
+// Fetch players from a mirror instead of youtube.com. Only the origin changes, the player path is kept
+const PLAYER_BASE_URL = Deno.env.get("PLAYER_BASE_URL")?.replace(/\/+$/, '');
+
+const httpClient = PLAYER_FETCH_PROXY ? createProxyClient(PLAYER_FETCH_PROXY) : undefined;
+
+// 5xx responses and network errors, worth another attempt
+class TransientFetchError extends Error {}
+class FetchTimeoutError extends TransientFetchError {}
+
+function createProxyClient(proxyUrl: string): Deno.HttpClient {
+    const url = new URL(proxyUrl);
+    const basicAuth = url.username ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) } : undefined;
+    url.username = '';
+    url.password = '';
+    return Deno.createHttpClient({ proxy: { url: url.toString(), basicAuth } });
+}
+
+function getFetchUrl(playerUrl: string): string {
+    if (!PLAYER_BASE_URL) {
+        return playerUrl;
+    }
+    const url = new URL(playerUrl);
+    return `${PLAYER_BASE_URL}${url.pathname}${url.search}`;
+}
+
+// Fetches a player script, retrying transient failures with jittered exponential backoff.
+// Failures are thrown as PlayerFetchError: 504 when upstream timed out, 502 otherwise.
+export async function fetchPlayerScript(playerUrl: string): Promise<string> {
+    const fetchUrl = getFetchUrl(playerUrl);
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fetchOnce(playerUrl, fetchUrl);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            if (!(e instanceof TransientFetchError) || attempt >= PLAYER_FETCH_RETRIES) {
+                throw new PlayerFetchError(message, e instanceof FetchTimeoutError ? 504 : 502, e instanceof TransientFetchError);
+            }
+            const delay = Math.round(PLAYER_FETCH_RETRY_DELAY_MS * 2 ** attempt * (0.5 + Math.random() / 2));
+            logger.warn(`Player fetch failed, retrying in ${delay}ms`, { player_url: fetchUrl, attempt: attempt + 1, error: message });
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+    }
+}
+
+async function fetchOnce(playerUrl: string, fetchUrl: string): Promise<string> {
+    const recordFetch = (status: string) => playerScriptFetches.labels({ player_id: playerIdLabel(playerUrl), status }).inc();
+    const controller = new AbortController();
+    let timedOut = false;
+    const abortAfter = (ms: number) => setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, ms);
+
+    let timer = abortAfter(PLAYER_FETCH_CONNECT_TIMEOUT_MS);
+    try {
+        const headers: Record<string, string> = {};
+        if (PLAYER_FETCH_USER_AGENT) {
+            headers["User-Agent"] = PLAYER_FETCH_USER_AGENT;
+        }
+        let response: Response;
+        try {
+            response = await fetch(fetchUrl, { headers, signal: controller.signal, client: httpClient });
+        } catch (e) {
+            recordFetch(timedOut ? 'timeout' : 'network_error');
+            throw timedOut
+                ? new FetchTimeoutError(`Timed out connecting to ${fetchUrl}`)
+                : new TransientFetchError(`Failed to fetch player from ${fetchUrl}: ${(e as Error).message}`);
+        }
+        clearTimeout(timer);
+        timer = abortAfter(PLAYER_FETCH_READ_TIMEOUT_MS);
+        recordFetch(response.statusText);
+
+        if (!response.ok) {
+            await response.body?.cancel();
+            const message = `Failed to fetch player from ${fetchUrl}: ${response.status} ${response.statusText}`;
+            throw response.status >= 500 ? new TransientFetchError(message) : new Error(message);
+        }
+        try {
+            return await readLimited(response, fetchUrl);
+        } catch (e) {
+            if (timedOut) {
+                throw new FetchTimeoutError(`Timed out reading player from ${fetchUrl}`);
+            }
+            throw e;
+        }
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// Content-Length can be missing or wrong, so the limit is also enforced while reading
+async function readLimited(response: Response, fetchUrl: string): Promise<string> {
+    const tooLarge = () => new Error(`Player from ${fetchUrl} is larger than ${PLAYER_FETCH_MAX_BYTES} bytes`);
+    if (parseInt(response.headers.get("content-length") || "", 10) > PLAYER_FETCH_MAX_BYTES) {
+        await response.body?.cancel();
+        throw tooLarge();
+    }
+    const body = await readStreamLimited(response.body, PLAYER_FETCH_MAX_BYTES);
+    if (!body) {
+        throw tooLarge();
+    }
+    return new TextDecoder().decode(body);
+}
@@ -0,0 +1,49 @@
+import { evictPlayer, listCachedPlayers, purgeAllPlayers } from "../cacheAdmin.ts";
+import { getPlayerCacheKey } from "../playerCache.ts";
+import { validateAndNormalizePlayerUrl } from "../utils.ts";
+import { importPlayer } from "../playerImport.ts";
+import { InvalidRequestError, NotFoundError } from "../errors.ts";
+import type { CachedPlayersResponse, PlayerUploadRequest, PlayerUploadResponse, RequestContext } from "../types.ts";
+
+export async function handleListPlayers(_ctx: RequestContext): Promise<Response> {
+    const response: CachedPlayersResponse = { players: await listCachedPlayers() };
+    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json" } });
+}
+
+// DELETE /admin/players?key=<cache key>, ?player_url=<url> or ?all=true
+export async function handleEvictPlayers(ctx: RequestContext): Promise<Response> {
+    const params = new URL(ctx.req.url).searchParams;
+
+    if (params.get('all') === 'true') {
+        const purged = await purgeAllPlayers();
+        return new Response(JSON.stringify({ purged }), { status: 200, headers: { "Content-Type": "application/json" } });
+    }
+
+    let cacheKey = params.get('key');
+    const playerUrl = params.get('player_url');
+    if (!cacheKey && playerUrl) {
+        try {
+            cacheKey = await getPlayerCacheKey(validateAndNormalizePlayerUrl(playerUrl));
+        } catch (e) {
+            throw new InvalidRequestError((e as Error).message, 'INVALID_PLAYER_URL');
+        }
+    }
+    // Keys end up in file paths, so only allow what getPlayerCacheKey can produce
+    if (!cacheKey || !/^[\w-]+$/.test(cacheKey)) {
+        throw new InvalidRequestError("Pass a valid 'key' or 'player_url', or 'all=true' to purge everything");
+    }
+
+    if (!await evictPlayer(cacheKey)) {
+        throw new NotFoundError('Player not found in cache');
+    }
+    return new Response(JSON.stringify({ evicted: cacheKey }), { status: 200, headers: { "Content-Type": "application/json" } });
+}
+
+// PUT /admin/players with the player url and script, for instances that can not fetch players themselves
+export async function handleUploadPlayer(ctx: RequestContext): Promise<Response> {
+    const { player_url, script } = ctx.body as PlayerUploadRequest;
+    const { cacheKey, result } = await importPlayer(player_url, script);
+
+    const response: PlayerUploadResponse = { cache_key: cacheKey, player_url, result };
+    return new Response(JSON.stringify(response), { status: result === 'created' ? 201 : 200, headers: { "Content-Type": "application/json" } });
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { getSolvers } from "../solver.ts";
+import { decryptWithSolvers } from "./decryptSignature.ts";
+import { validateSignatureItem } from "../validation.ts";
+import { batchItems } from "../metrics.ts";
+import { type ErrorBody, errorBody, SolverUnavailableError, toHttpError } from "../errors.ts";
+import { playerIdLabel } from "../metricLabels.ts";
+import type { BatchSignatureItemResult, BatchSignatureRequest, BatchSignatureResponse, RequestContext, SignatureRequest } from "../types.ts";
+
+export async function handleBatchDecryptSignature(ctx: RequestContext): Promise<Response> {
+    const { items } = ctx.body as BatchSignatureRequest;
+    const results: BatchSignatureItemResult[] = new Array(items.length);
+
+    // Group items by player so each player script is only solved once per batch
+    const groups = new Map<string, { index: number; item: SignatureRequest }[]>();
+    items.forEach((rawItem, index) => {
+        try {
+            const item = validateSignatureItem(rawItem);
+            const group = groups.get(item.player_url) ?? [];
+            group.push({ index, item });
+            groups.set(item.player_url, group);
+        } catch (e) {
+            results[index] = { success: false, ...errorBody(toHttpError(e)) };
+            batchItems.labels({ player_id: 'unknown', status: 'invalid' }).inc();
+        }
+    });
+
+    await Promise.all(Array.from(groups, async ([playerUrl, entries]) => {
+        const playerId = playerIdLabel(playerUrl);
+
+        let groupError: ErrorBody | null = null;
+        let solvers = null;
+        try {
+            solvers = await getSolvers(playerUrl);
+            if (!solvers) {
+                groupError = errorBody(new SolverUnavailableError("Failed to generate solvers from player script"));
+            }
+        } catch (e) {
+            groupError = errorBody(toHttpError(e));
+        }
+
+        for (const { index, item } of entries) {
+            if (!solvers) {
+                results[index] = { success: false, ...groupError! };
+                batchItems.labels({ player_id: playerId, status: 'error' }).inc();
+                continue;
+            }
+            try {
+                const { decrypted_signature, decrypted_n_sig } = await decryptWithSolvers(solvers, item.encrypted_signature, item.n_param);
+                results[index] = { success: true, decrypted_signature, decrypted_n_sig };
+                batchItems.labels({ player_id: playerId, status: 'success' }).inc();
+            } catch (e) {
+                results[index] = { success: false, ...errorBody(toHttpError(e)) };
+                batchItems.labels({ player_id: playerId, status: 'error' }).inc();
+            }
+        }
+    }));
+
+    const response: BatchSignatureResponse = { results };
+
+    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json" } });
+}
@@ -1,29 +1,36 @@
 import { getSolvers } from "../solver.ts";
-import type { RequestContext, SignatureRequest, SignatureResponse } from "../types.ts";
-
-export async function handleDecryptSignature(ctx: RequestContext): Promise<Response> {
-    const { encrypted_signature, n_param, player_url } = ctx.body as SignatureRequest;
-
-    const solvers = await getSolvers(player_url);
-
-    if (!solvers) {
-        return new Response(JSON.stringify({ error: "Failed to generate solvers from player script" }), { status: 500, headers: { "Content-Type": "application/json" } });
-    }
+import { SolverUnavailableError } from "../errors.ts";
+import { isCacheHit, memoizeSolvers } from "../resultCache.ts";
+import type { RequestContext, SignatureRequest, SignatureResponse, Solvers } from "../types.ts";
 
+export async function decryptWithSolvers(solvers: Solvers, encrypted_signature: string, n_param: string): Promise<SignatureResponse> {
     let decrypted_signature = '';
     if (encrypted_signature && solvers.sig) {
-        decrypted_signature = solvers.sig(encrypted_signature);
+        decrypted_signature = await solvers.sig(encrypted_signature);
     }
 
     let decrypted_n_sig = '';
     if (n_param && solvers.n) {
-        decrypted_n_sig = solvers.n(n_param);
+        decrypted_n_sig = await solvers.n(n_param);
     }
 
-    const response: SignatureResponse = {
+    return {
         decrypted_signature,
         decrypted_n_sig,
     };
+}
+
+export async function handleDecryptSignature(ctx: RequestContext): Promise<Response> {
+    const { encrypted_signature, n_param, player_url } = ctx.body as SignatureRequest;
+
+    const solvers = await getSolvers(player_url);
+
+    if (!solvers) {
+        throw new SolverUnavailableError("Failed to generate solvers from player script");
+    }
+
+    const usage = { hits: 0, misses: 0 };
+    const response: SignatureResponse = await decryptWithSolvers(await memoizeSolvers(player_url, solvers, usage), encrypted_signature, n_param);
 
-    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json" } });
-}
\ No newline at end of file
+    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json", "X-Cache-Hit": String(isCacheHit(usage)) } });
+}
@@ -1,37 +1,40 @@
 import { getPlayerFilePath } from "../playerCache.ts";
 import type { RequestContext, StsRequest, StsResponse } from "../types.ts";
 import { stsCache } from "../stsCache.ts";
+import { timeStage } from "../metrics.ts";
+import { StsNotFoundError } from "../errors.ts";
 
-export async function handleGetSts(ctx: RequestContext): Promise<Response> {
-    const { player_url } = ctx.body as StsRequest;
-    const playerFilePath = await getPlayerFilePath(player_url);
-
+// sts is null when the player script has none
+export async function getPlayerSts(playerFilePath: string): Promise<{ sts: string | null; cached: boolean }> {
     const cachedSts = stsCache.get(playerFilePath);
     if (cachedSts) {
-        const response: StsResponse = { sts: cachedSts };
-        return new Response(JSON.stringify(response), {
-            status: 200,
-            headers: { "Content-Type": "application/json", "X-Cache-Hit": "true" },
-        });
+        return { sts: cachedSts, cached: true };
     }
 
-    const playerContent = await Deno.readTextFile(playerFilePath);
+    const playerContent = await timeStage('disk_read', () => Deno.readTextFile(playerFilePath));
 
     const stsPattern = /(signatureTimestamp|sts):(\d+)/;
     const match = playerContent.match(stsPattern);
 
     if (match && match[2]) {
-        const sts = match[2];
-        stsCache.set(playerFilePath, sts);
-        const response: StsResponse = { sts };
-        return new Response(JSON.stringify(response), {
-            status: 200,
-            headers: { "Content-Type": "application/json", "X-Cache-Hit": "false" },
-        });
-    } else {
-        return new Response(JSON.stringify({ error: "Timestamp not found in player script" }), {
-            status: 404,
-            headers: { "Content-Type": "application/json" },
-        });
+        stsCache.set(playerFilePath, match[2]);
+        return { sts: match[2], cached: false };
     }
+    return { sts: null, cached: false };
+}
+
+export async function handleGetSts(ctx: RequestContext): Promise<Response> {
+    const { player_url } = ctx.body as StsRequest;
+    const playerFilePath = await getPlayerFilePath(player_url);
+
+    const { sts, cached } = await getPlayerSts(playerFilePath);
+    if (!sts) {
+        throw new StsNotFoundError();
+    }
+
+    const response: StsResponse = { sts };
+    return new Response(JSON.stringify(response), {
+        status: 200,
+        headers: { "Content-Type": "application/json", "X-Cache-Hit": String(cached) },
+    });
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { getLivenessReport, getReadinessReport } from "../health.ts";
+
+export function handleHealthz(): Response {
+    return new Response(JSON.stringify(getLivenessReport()), { status: 200, headers: { "Content-Type": "application/json" } });
+}
+
+export async function handleReadyz(): Promise<Response> {
+    const report = await getReadinessReport();
+    const status = report.status === 'ok' ? 200 : 503;
+    return new Response(JSON.stringify(report), { status, headers: { "Content-Type": "application/json" } });
+}
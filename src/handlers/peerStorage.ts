@@ -0,0 +1,22 @@
+import { playerStorage, STORAGE_ROOT } from "../playerCache.ts";
+import { resolvePeerFilePath } from "../storage.ts";
+import { errorResponse, NotFoundError } from "../errors.ts";
+
+const ROUTE_PREFIX = '/internal/storage/';
+
+// Serves raw and preprocessed players to sibling instances using the peer storage backend.
+// Only answers from local files, so a miss here never turns into another peer request.
+export async function handlePeerStorage(req: Request): Promise<Response> {
+    const { pathname } = new URL(req.url);
+    const filePath = req.method === 'GET' && pathname.startsWith(ROUTE_PREFIX)
+        ? resolvePeerFilePath(STORAGE_ROOT, pathname.slice(ROUTE_PREFIX.length))
+        : null;
+    if (!filePath) {
+        return errorResponse(new NotFoundError());
+    }
+    const content = await playerStorage.read(filePath);
+    if (content === null) {
+        return errorResponse(new NotFoundError('File not found'));
+    }
+    return new Response(content, { status: 200, headers: { "Content-Type": "text/javascript" } });
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { getSolvers } from "../solver.ts";
+import { getPlayerCacheKey, getPlayerFilePath } from "../playerCache.ts";
+import { getPlayerTiers } from "../cacheAdmin.ts";
+import { getPlayerSts } from "./getSts.ts";
+import { extractPlayerId } from "../utils.ts";
+import type { PlayerInfoRequest, PlayerInfoResponse, RequestContext, SolverTestResult } from "../types.ts";
+
+async function runTest(solver: ((val: string) => Promise<string>) | null, input: string): Promise<SolverTestResult> {
+    if (!solver) {
+        return { input, error: "No solver found for this player" };
+    }
+    try {
+        return { input, output: await solver(input) };
+    } catch (e) {
+        return { input, error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+// Debugging aid: what the service knows about a player, without needing a real signature
+export async function handlePlayerInfo(ctx: RequestContext): Promise<Response> {
+    const { player_url, test_signature, test_n } = ctx.body as PlayerInfoRequest;
+
+    const cacheKey = await getPlayerCacheKey(player_url);
+    const cacheTiers = await getPlayerTiers(cacheKey);
+
+    const playerFilePath = await getPlayerFilePath(player_url);
+    const stat = await Deno.stat(playerFilePath);
+    const { sts } = await getPlayerSts(playerFilePath);
+    const solvers = await getSolvers(player_url);
+
+    const response: PlayerInfoResponse = {
+        player_url,
+        player_id: extractPlayerId(player_url),
+        cache_key: cacheKey,
+        sts,
+        solvers: { sig: !!solvers?.sig, n: !!solvers?.n },
+        script_size_bytes: stat.size,
+        // The cached file is written once when the player is fetched
+        fetched_at: stat.mtime?.toISOString() ?? null,
+        cache_tiers: cacheTiers,
+    };
+
+    if (test_signature !== undefined || test_n !== undefined) {
+        response.test_results = {};
+        if (test_signature !== undefined) {
+            response.test_results.sig = await runTest(solvers?.sig ?? null, test_signature);
+        }
+        if (test_n !== undefined) {
+            response.test_results.n = await runTest(solvers?.n ?? null, test_n);
+        }
+    }
+
+    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json" } });
+}
@@ -0,0 +1,12 @@
+import { prewarmPlayers } from "../prewarm.ts";
+import type { PrewarmRequest, PrewarmResponse, RequestContext } from "../types.ts";
+
+export async function handlePrewarm(ctx: RequestContext): Promise<Response> {
+    const { player_urls } = ctx.body as PrewarmRequest;
+
+    const response: PrewarmResponse = {
+        results: await prewarmPlayers(player_urls, 'admin'),
+    };
+
+    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json" } });
+}
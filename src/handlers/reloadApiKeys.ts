@@ -0,0 +1,7 @@
+import { loadApiKeys } from "../auth.ts";
+import type { RequestContext } from "../types.ts";
+
+export async function handleReloadApiKeys(_ctx: RequestContext): Promise<Response> {
+    const keyCount = await loadApiKeys();
+    return new Response(JSON.stringify({ keys: keyCount }), { status: 200, headers: { "Content-Type": "application/json" } });
+}
@@ -0,0 +1,7 @@
+import { reloadSettings } from "../settings.ts";
+import type { RequestContext } from "../types.ts";
+
+export async function handleReloadSettings(_ctx: RequestContext): Promise<Response> {
+    const response = await reloadSettings();
+    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json" } });
+}
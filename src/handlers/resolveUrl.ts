@@ -1,22 +1,58 @@
 import { getSolvers } from "../solver.ts";
-import type { RequestContext, ResolveUrlRequest, ResolveUrlResponse } from "../types.ts";
+import { errorBody, HttpError, InvalidRequestError, SolverUnavailableError, toHttpError } from "../errors.ts";
+import { isCacheHit, memoizeSolvers } from "../resultCache.ts";
+import type { RequestContext, ResolveUrlBatchResponse, ResolveUrlItemResult, ResolveUrlRequest, ResolveUrlResponse, Solvers } from "../types.ts";
 
-export async function handleResolveUrl(ctx: RequestContext): Promise<Response> {
-    const { stream_url, player_url, encrypted_signature, signature_key, n_param: nParamFromRequest } = ctx.body as ResolveUrlRequest;
+export interface StreamToResolve {
+    stream_url: string;
+    encrypted_signature?: string;
+    signature_key?: string;
+    n_param?: string;
+}
+
+// signatureCipher (or cipher) blobs are query strings holding the stream url, the encrypted signature (s)
+// and the query parameter the decrypted signature goes in (sp)
+export function parseSignatureCipher(signatureCipher: string): StreamToResolve {
+    const params = new URLSearchParams(signatureCipher);
+    const streamUrl = params.get('url');
+    if (!streamUrl) {
+        throw new InvalidRequestError("signature_cipher has no 'url'", 'INVALID_STREAM_URL');
+    }
+    return {
+        stream_url: streamUrl,
+        encrypted_signature: params.get('s') ?? undefined,
+        signature_key: params.get('sp') ?? undefined,
+    };
+}
 
-    const solvers = await getSolvers(player_url);
+// A format list mixes plain stream urls with cipher blobs, a blob never starts with a scheme
+function parseStream(stream: string): StreamToResolve {
+    return /^https?:\/\//i.test(stream) ? { stream_url: stream } : parseSignatureCipher(stream);
+}
 
-    if (!solvers) {
-        return new Response(JSON.stringify({ error: "Failed to generate solvers from player script" }), { status: 500, headers: { "Content-Type": "application/json" } });
+function parseStreamUrl(streamUrl: string): URL {
+    try {
+        return new URL(streamUrl);
+    } catch {
+        throw new InvalidRequestError(`Invalid stream_url: ${streamUrl}`, 'INVALID_STREAM_URL');
     }
+}
+
+// Fails with INVALID_STREAM_URL for anything that is not a url, before any solving
+function checkStream(stream: StreamToResolve): StreamToResolve {
+    parseStreamUrl(stream.stream_url);
+    return stream;
+}
 
-    const url = new URL(stream_url);
+export async function resolveStreamUrl(solvers: Solvers, stream: StreamToResolve): Promise<string> {
+    const { stream_url, encrypted_signature, signature_key, n_param: nParamFromRequest } = stream;
+    const url = parseStreamUrl(stream_url);
 
     if (encrypted_signature) {
         if (!solvers.sig) {
-            return new Response(JSON.stringify({ error: "No signature solver found for this player" }), { status: 500, headers: { "Content-Type": "application/json" } });
+            throw new SolverUnavailableError("No signature solver found for this player");
         }
-        const decryptedSig = solvers.sig(encrypted_signature);
+        const decryptedSig = await solvers.sig(encrypted_signature);
         const sigKey = signature_key || 'sig';
         url.searchParams.set(sigKey, decryptedSig);
         url.searchParams.delete("s");
@@ -29,15 +65,69 @@ export async function handleResolveUrl(ctx: RequestContext): Promise<Response> {
 
     if (solvers.n) {
         if (!nParam) {
-            return new Response(JSON.stringify({ error: "n_param not found in request or stream_url" }), { status: 400, headers: { "Content-Type": "application/json" } });
+            throw new InvalidRequestError("n_param not found in request or stream_url");
         }
-        const decryptedN = solvers.n(nParam);
+        const decryptedN = await solvers.n(nParam);
         url.searchParams.set("n", decryptedN);
     }
-    
-    const response: ResolveUrlResponse = {
-        resolved_url: url.toString(),
-    };
 
-    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json" } });
+    return url.toString();
+}
+
+export async function handleResolveUrl(ctx: RequestContext): Promise<Response> {
+    const { stream_url, signature_cipher, streams, player_url, encrypted_signature, signature_key, n_param } = ctx.body as ResolveUrlRequest;
+
+    if ([stream_url, signature_cipher, streams].filter((v) => v !== undefined).length !== 1) {
+        throw new InvalidRequestError("Pass exactly one of 'stream_url', 'signature_cipher' or 'streams'");
+    }
+
+    // Parse and check the urls before solving so a malformed request does not cost a player fetch
+    const single = stream_url !== undefined
+        ? checkStream({ stream_url, encrypted_signature, signature_key, n_param })
+        : signature_cipher !== undefined ? checkStream({ ...parseSignatureCipher(signature_cipher), n_param }) : null;
+    // A bad entry in a list only fails itself
+    const parsedStreams = (streams ?? []).map((stream): StreamToResolve | HttpError => {
+        try {
+            return checkStream({ ...parseStream(stream), n_param });
+        } catch (e) {
+            return toHttpError(e);
+        }
+    });
+
+    if (!single && parsedStreams.every((stream) => stream instanceof HttpError)) {
+        const response: ResolveUrlBatchResponse = {
+            results: parsedStreams.map((error) => ({ success: false, ...errorBody(error as HttpError) })),
+        };
+        return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json", "X-Cache-Hit": "false" } });
+    }
+
+    const playerSolvers = await getSolvers(player_url);
+
+    if (!playerSolvers) {
+        throw new SolverUnavailableError("Failed to generate solvers from player script");
+    }
+    const usage = { hits: 0, misses: 0 };
+    const solvers = await memoizeSolvers(player_url, playerSolvers, usage);
+
+    if (single) {
+        const response: ResolveUrlResponse = {
+            resolved_url: await resolveStreamUrl(solvers, single),
+        };
+        return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json", "X-Cache-Hit": String(isCacheHit(usage)) } });
+    }
+
+    // Like the batch endpoint, every stream succeeds or fails on its own
+    const results = await Promise.all(parsedStreams.map(async (stream): Promise<ResolveUrlItemResult> => {
+        if (stream instanceof HttpError) {
+            return { success: false, ...errorBody(stream) };
+        }
+        try {
+            return { success: true, resolved_url: await resolveStreamUrl(solvers, stream) };
+        } catch (e) {
+            return { success: false, ...errorBody(toHttpError(e)) };
+        }
+    }));
+    const response: ResolveUrlBatchResponse = { results };
+
+    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json", "X-Cache-Hit": String(isCacheHit(usage)) } });
 }
\ No newline at end of file
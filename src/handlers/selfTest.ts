@@ -0,0 +1,12 @@
+import { runSelfTest } from "../solverVerification.ts";
+import type { RequestContext, SelfTestResponse } from "../types.ts";
+
+export async function handleSelfTest(_ctx: RequestContext): Promise<Response> {
+    const results = await runSelfTest();
+    const response: SelfTestResponse = {
+        checked: results.length,
+        failed: results.filter((result) => !result.passed).length,
+        results,
+    };
+    return new Response(JSON.stringify(response), { status: 200, headers: { "Content-Type": "application/json" } });
+}
\ No newline at end of file
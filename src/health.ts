@@ -0,0 +1,112 @@
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { CACHE_DIR } from "./playerCache.ts";
+import { preprocessedCache } from "./preprocessedCache.ts";
+import { solverCache } from "./solverCache.ts";
+import { stsCache } from "./stsCache.ts";
+import { sandboxPool, workerPool, type WorkerPool } from "./workerPool.ts";
+import { SOLVER_EXECUTION_MODE } from "./solverExecution.ts";
+import type { HealthReport, WorkerPoolStats } from "./types.ts";
+
+const READINESS_MAX_QUEUE_DEPTH = parseInt(Deno.env.get("READINESS_MAX_QUEUE_DEPTH") || "", 10) || 100;
+const READINESS_PING_TIMEOUT_MS = parseInt(Deno.env.get("READINESS_PING_TIMEOUT_MS") || "", 10) || 2000;
+
+let initialized = false;
+let shuttingDown = false;
+// Shared between concurrent probes so a slow pool never piles up ping tasks. Keyed by pool name
+const pendingPings = new Map<string, Promise<boolean>>();
+
+export function markInitialized() {
+    initialized = true;
+}
+
+export function isInitialized(): boolean {
+    return initialized;
+}
+
+// Readiness fails from here on, so load balancers stop sending traffic during the drain
+export function markShuttingDown() {
+    shuttingDown = true;
+}
+
+export function isShuttingDown(): boolean {
+    return shuttingDown;
+}
+
+function activePools(): WorkerPool[] {
+    return SOLVER_EXECUTION_MODE === 'sandbox' ? [workerPool, sandboxPool] : [workerPool];
+}
+
+// Goes through the regular queue, so it answers as soon as any worker is free
+function pingWorkers(pool: WorkerPool): Promise<boolean> {
+    let pendingPing = pendingPings.get(pool.name);
+    if (!pendingPing) {
+        pendingPing = pool.exec<string>({ type: 'ping' }, { timeoutMs: READINESS_PING_TIMEOUT_MS })
+            .then(() => true, () => false)
+            .finally(() => {
+                pendingPings.delete(pool.name);
+            });
+        pendingPings.set(pool.name, pendingPing);
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+    const deadline = new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), READINESS_PING_TIMEOUT_MS);
+    });
+    return Promise.race([pendingPing, deadline]).finally(() => clearTimeout(timer));
+}
+
+async function isCacheDirWritable(): Promise<boolean> {
+    const probePath = join(CACHE_DIR, `.readyz-${crypto.randomUUID()}`);
+    try {
+        await Deno.writeTextFile(probePath, 'ok');
+        await Deno.remove(probePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function getStats(): Pick<HealthReport, 'workers' | 'caches'> {
+    const workers: Record<string, WorkerPoolStats> = {};
+    for (const pool of activePools()) {
+        workers[pool.name] = pool.stats();
+    }
+    return {
+        workers,
+        caches: {
+            solver: solverCache.size,
+            preprocessed: preprocessedCache.size,
+            sts: stsCache.size,
+        },
+    };
+}
+
+export function getLivenessReport(): HealthReport {
+    return { status: 'ok', ...getStats() };
+}
+
+export async function getReadinessReport(): Promise<HealthReport> {
+    const stats = getStats();
+    const queueDepth = Object.values(stats.workers).reduce((sum, pool) => sum + pool.queued, 0);
+
+    const checks: Record<string, boolean> = {
+        initialized,
+        accepting_requests: !shuttingDown,
+        queue_depth: queueDepth <= READINESS_MAX_QUEUE_DEPTH,
+    };
+    if (initialized) {
+        // In sandbox mode the solvers run in the sandbox pool, so it has to answer as well
+        const pools = activePools();
+        const [cacheWritable, ...poolsResponding] = await Promise.all([
+            isCacheDirWritable(),
+            ...pools.map(pool => checks.queue_depth ? pingWorkers(pool) : Promise.resolve(false)),
+        ]);
+        checks.cache_dir_writable = cacheWritable;
+        pools.forEach((pool, i) => {
+            checks[pool === workerPool ? 'workers_responding' : `${pool.name}_workers_responding`] = poolsResponding[i];
+        });
+    }
+
+    const ready = Object.values(checks).every(Boolean);
+    return { status: ready ? 'ok' : 'unavailable', checks, ...stats };
+}
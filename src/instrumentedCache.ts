@@ -1,29 +1,131 @@
-import { cacheSize } from "./metrics.ts";
+import { cacheBytes, cacheLookups, cacheSize } from "./metrics.ts";
 import { LruCache } from "jsr:@std/cache";
 
+export interface CacheEntryInfo<T> {
+    key: string;
+    value: T;
+    lastAccess: number;
+}
+
+export interface ByteBudget<T> {
+    maxBytes: number;
+    sizeOf: (value: T) => number;
+}
+
+export interface LruOptions<T> {
+    byteBudget?: ByteBudget<T>;
+    // Entries older than this are treated as missing
+    ttlMs?: number;
+}
+
 export class InstrumentedLRU<T> extends LruCache<string, T> {
-    constructor(private cacheName: string, maxSize: number) {
-        super(maxSize);
+    private lastAccess = new Map<string, number>();
+    private entryBytes = new Map<string, number>();
+    private totalBytes = 0;
+    private expiresAt = new Map<string, number>();
+    private byteBudget?: ByteBudget<T>;
+    private ttlMs?: number;
+
+    // maxEntries caps the number of entries. With a byte budget the least recently used
+    // entries are also dropped once their combined size goes over it.
+    // Both limits are enforced here rather than by LruCache, so resize() can change them.
+    constructor(private cacheName: string, private maxEntries: number, options: LruOptions<T> = {}) {
+        super(Infinity);
+        this.byteBudget = options.byteBudget;
+        this.ttlMs = options.ttlMs;
+    }
+
+    // Applies new limits to the live cache, e.g. after a settings reload. Entries over them
+    // are dropped least recently used first, everything else is kept.
+    public resize(maxSize: number, byteBudget?: ByteBudget<T>) {
+        this.maxEntries = maxSize;
+        if (byteBudget && !this.byteBudget) {
+            this.totalBytes = 0;
+            for (const [key, value] of super.entries()) {
+                const size = byteBudget.sizeOf(value);
+                this.entryBytes.set(key, size);
+                this.totalBytes += size;
+            }
+        } else if (this.byteBudget && !byteBudget) {
+            this.entryBytes.clear();
+            this.totalBytes = 0;
+            cacheBytes.labels({ cache_name: this.cacheName }).set(0);
+        }
+        this.byteBudget = byteBudget;
+        this.enforceLimits();
+        this.updateMetrics();
+    }
+
+    override get(key: string): T | undefined {
+        if (this.ttlMs && (this.expiresAt.get(key) ?? Infinity) <= Date.now()) {
+            this.delete(key);
+        }
+        const value = super.get(key);
+        cacheLookups.labels({ cache_name: this.cacheName, result: value === undefined ? 'miss' : 'hit' }).inc();
+        if (value !== undefined) {
+            this.lastAccess.set(key, Date.now());
+        }
+        return value;
     }
 
     override set(key: string, value: T): this {
+        this.lastAccess.set(key, Date.now());
+        if (this.ttlMs) {
+            this.expiresAt.set(key, Date.now() + this.ttlMs);
+        }
+        if (this.byteBudget) {
+            const size = this.byteBudget.sizeOf(value);
+            this.totalBytes += size - (this.entryBytes.get(key) ?? 0);
+            this.entryBytes.set(key, size);
+        }
         super.set(key, value);
-        cacheSize.labels({ cache_name: this.cacheName }).set(this.size);
+        this.enforceLimits();
+        this.updateMetrics();
         return this;
     }
 
+    private enforceLimits() {
+        while (this.size > this.maxEntries) {
+            this.delete(this.keys().next().value!);
+        }
+        // The newest entry is always kept, even when it alone is over budget
+        while (this.byteBudget && this.totalBytes > this.byteBudget.maxBytes && this.size > 1) {
+            this.delete(this.keys().next().value!);
+        }
+    }
+
     override delete(key: string): boolean {
+        this.lastAccess.delete(key);
+        this.expiresAt.delete(key);
+        this.totalBytes -= this.entryBytes.get(key) ?? 0;
+        this.entryBytes.delete(key);
         const result = super.delete(key);
-        cacheSize.labels({ cache_name: this.cacheName }).set(this.size);
+        this.updateMetrics();
         return result;
     }
 
     override clear(): void {
+        this.lastAccess.clear();
+        this.expiresAt.clear();
+        this.entryBytes.clear();
+        this.totalBytes = 0;
         super.clear();
-        cacheSize.labels({ cache_name: this.cacheName }).set(this.size);
+        this.updateMetrics();
     }
 
     public remove(key: string): void {
         this.delete(key);
     }
+
+    // Least recently used first. Unlike get(), this does not count as an access.
+    public list(): CacheEntryInfo<T>[] {
+        return Array.from(super.entries(), ([key, value]) => ({ key, value, lastAccess: this.lastAccess.get(key) ?? 0 }));
+    }
+
+    private updateMetrics() {
+        cacheSize.labels({ cache_name: this.cacheName }).set(this.size);
+        if (this.byteBudget) {
+            cacheBytes.labels({ cache_name: this.cacheName }).set(this.totalBytes);
+        }
+    }
 }
@@ -0,0 +1,80 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Unknown values fall back to info
+export function parseLogLevel(value: string | undefined): LogLevel {
+    const level = value?.toLowerCase();
+    return level && level in LEVELS ? level as LogLevel : 'info';
+}
+
+let logLevel = parseLogLevel(Deno.env.get("LOG_LEVEL"));
+// The CLI keeps stdout for its own output
+let allToStderr = false;
+// text (default) or json, one object per line
+const LOG_FORMAT = Deno.env.get("LOG_FORMAT") === 'json' ? 'json' : 'text';
+
+// Carries the request ID through every await made while handling a request
+const requestScope = new AsyncLocalStorage<{ requestId: string }>();
+
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+    return requestScope.run({ requestId }, fn);
+}
+
+export function getRequestId(): string | undefined {
+    return requestScope.getStore()?.requestId;
+}
+
+// Client supplied IDs are kept when they look sane, otherwise we make our own
+export function resolveRequestId(incoming: string | null): string {
+    if (incoming && /^[\w.:-]{1,128}$/.test(incoming)) {
+        return incoming;
+    }
+    return crypto.randomUUID();
+}
+
+function serializeError(error: unknown): unknown {
+    if (error instanceof Error) {
+        return { name: error.name, message: error.message, stack: error.stack };
+    }
+    return error;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (LEVELS[level] < LEVELS[logLevel]) {
+        return;
+    }
+    // Work that finished outside the request's async scope (e.g. in a worker) passes request_id explicitly
+    const requestId = fields.request_id ?? getRequestId();
+    const { request_id: _, ...rest } = fields;
+    if (rest.error !== undefined) {
+        rest.error = serializeError(rest.error);
+    }
+
+    const out = allToStderr || level === 'error' || level === 'warn' ? console.error : console.log;
+    if (LOG_FORMAT === 'json') {
+        out(JSON.stringify({ time: new Date().toISOString(), level, msg: message, request_id: requestId, ...rest }));
+        return;
+    }
+
+    const prefix = requestId ? `[${requestId}] ` : '';
+    const extra = Object.entries(rest)
+        .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+        .join(' ');
+    out(`${new Date().toISOString()} ${level.toUpperCase()} ${prefix}${message}${extra ? ` ${extra}` : ''}`);
+}
+
+export function configureLogger(options: { level?: LogLevel; stderr?: boolean }) {
+    logLevel = options.level ?? logLevel;
+    allToStderr = options.stderr ?? allToStderr;
+}
+
+export const logger = {
+    debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+    info: (message: string, fields?: LogFields) => write('info', message, fields),
+    warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+    error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
@@ -0,0 +1,84 @@
+import { extractPlayerId } from "./utils.ts";
+
+// Raw client headers and player IDs would create a new series per distinct value, so every
+// free-form label value goes through a policy before it reaches a metric:
+//   METRICS_<LABEL>_MODE       keep | normalize | drop
+//   METRICS_<LABEL>_ALLOWLIST  comma separated values to keep, anything else becomes "other"
+//   METRICS_MAX_LABEL_VALUES   distinct values kept per label, later ones become "other"
+const MAX_LABEL_VALUES = parseInt(Deno.env.get("METRICS_MAX_LABEL_VALUES") || "", 10) || 100;
+
+const OTHER = 'other';
+
+type LabelMode = 'keep' | 'normalize' | 'drop';
+
+class LabelPolicy {
+    private mode: LabelMode;
+    private allowlist: Set<string> | null;
+    private seen = new Set<string>();
+
+    constructor(label: string, defaultMode: LabelMode, private normalizer: (value: string) => string) {
+        const envName = `METRICS_${label.toUpperCase()}`;
+        const mode = Deno.env.get(`${envName}_MODE`);
+        this.mode = mode === 'keep' || mode === 'normalize' || mode === 'drop' ? mode : defaultMode;
+        const allowlist = Deno.env.get(`${envName}_ALLOWLIST`);
+        this.allowlist = allowlist ? new Set(allowlist.split(',').map(v => v.trim()).filter(v => v !== '')) : null;
+    }
+
+    value(raw: string): string {
+        if (this.mode === 'drop') {
+            return '';
+        }
+        const value = this.mode === 'normalize' ? this.normalizer(raw) : raw;
+        if (this.allowlist) {
+            return this.allowlist.has(value) ? value : OTHER;
+        }
+        if (!this.seen.has(value)) {
+            if (this.seen.size >= MAX_LABEL_VALUES) {
+                return OTHER;
+            }
+            this.seen.add(value);
+        }
+        return value;
+    }
+}
+
+// "Lavalink/4.0.8 (youtube-source)" -> "lavalink"
+function normalizeUserAgent(value: string): string {
+    return (value.trim().split(/[\s/;(]/)[0] || 'unknown').toLowerCase().slice(0, 64);
+}
+
+// "1.11.3-SNAPSHOT" -> "1.11"
+function normalizePluginVersion(value: string): string {
+    const match = value.match(/^v?(\d+)(?:\.(\d+))?/);
+    return match ? (match[2] !== undefined ? `${match[1]}.${match[2]}` : match[1]) : OTHER;
+}
+
+// Player IDs are 8 hex chars, anything else is garbage from a bad url
+function normalizePlayerId(value: string): string {
+    return /^[0-9a-f]{8}$/i.test(value) || value === 'unknown' ? value.toLowerCase() : OTHER;
+}
+
+function normalizeMessage(value: string): string {
+    return value.slice(0, 100);
+}
+
+const userAgentPolicy = new LabelPolicy('user_agent', 'normalize', normalizeUserAgent);
+const pluginVersionPolicy = new LabelPolicy('plugin_version', 'keep', normalizePluginVersion);
+const playerIdPolicy = new LabelPolicy('player_id', 'normalize', normalizePlayerId);
+const messagePolicy = new LabelPolicy('message', 'normalize', normalizeMessage);
+
+export function userAgentLabel(userAgent: string): string {
+    return userAgentPolicy.value(userAgent);
+}
+
+export function pluginVersionLabel(pluginVersion: string): string {
+    return pluginVersionPolicy.value(pluginVersion);
+}
+
+export function playerIdLabel(playerUrl: string): string {
+    return playerIdPolicy.value(extractPlayerId(playerUrl));
+}
+
+export function messageLabel(message: string): string {
+    return messagePolicy.value(message);
+}
@@ -46,6 +46,34 @@ export const cacheSize = Gauge.with({
     registry: [registry],
 });
 
+export const errorCodes = Counter.with({
+    name: "error_codes_total",
+    help: "Failed requests by error code.",
+    labels: ["pathname", "code"],
+    registry: [registry],
+});
+
+export const cacheBytes = Gauge.with({
+    name: "cache_bytes",
+    help: "Approximate size of the cache in bytes, for caches with a byte budget.",
+    labels: ["cache_name"],
+    registry: [registry],
+});
+
+export const cacheEvictions = Counter.with({
+    name: "cache_evictions_total",
+    help: "Files removed from the on-disk caches, by reason.",
+    labels: ["cache_name", "reason"],
+    registry: [registry],
+});
+
+export const cacheLookups = Counter.with({
+    name: "cache_lookups_total",
+    help: "Total number of cache lookups by cache tier and result.",
+    labels: ["cache_name", "result"],
+    registry: [registry],
+});
+
 export const playerUrlRequests = Counter.with({
     name: "player_url_requests_total",
     help: "Total number of requests for each player ID.",
@@ -56,6 +84,94 @@ export const playerUrlRequests = Counter.with({
 export const playerScriptFetches = Counter.with({
     name: "player_script_fetches_total",
     help: "Total number of player script fetches.",
-    labels: ["player_url", "status"],
+    labels: ["player_id", "status"],
+    registry: [registry],
+});
+
+export const batchItems = Counter.with({
+    name: "batch_items_total",
+    help: "Total number of items processed by batch endpoints.",
+    labels: ["player_id", "status"],
+    registry: [registry],
+});
+
+export const singleFlightCoalesced = Counter.with({
+    name: "singleflight_coalesced_total",
+    help: "Total number of callers that waited on an already in-flight operation instead of starting their own.",
+    labels: ["operation"],
+    registry: [registry],
+});
+
+export const workerQueueDepth = Gauge.with({
+    name: "worker_queue_depth",
+    help: "The number of tasks waiting for a free worker.",
+    labels: ["pool", "priority"],
+    registry: [registry],
+});
+
+export const workerBusy = Gauge.with({
+    name: "worker_busy",
+    help: "The number of workers currently running a task.",
+    labels: ["pool"],
+    registry: [registry],
+});
+
+export const workerRespawns = Counter.with({
+    name: "worker_respawns_total",
+    help: "Total number of workers replaced after a timeout or crash.",
+    labels: ["pool", "reason"],
+    registry: [registry],
+});
+
+export const solverQuarantines = Counter.with({
+    name: "solver_quarantines_total",
+    help: "Total number of players quarantined because their solvers failed verification.",
+    labels: ["player_id", "solver", "reason"],
+    registry: [registry],
+});
+
+export const solverCallDuration = Histogram.with({
+    name: "solver_call_duration_seconds",
+    help: "Duration of a single sig or n solver call, including any worker round trip.",
+    labels: ["mode", "solver"],
+    buckets: [0.0001, 0.00025, 0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 1],
+    registry: [registry],
+});
+
+export const prewarmedPlayers = Counter.with({
+    name: "prewarmed_players_total",
+    help: "Total number of players prewarmed ahead of live traffic.",
+    labels: ["source", "status"],
+    registry: [registry],
+});
+
+export const apiKeyRequests = Counter.with({
+    name: "api_key_requests_total",
+    help: "Total number of requests per API key.",
+    labels: ["key_name", "pathname", "status"],
+    registry: [registry],
+});
+
+export const rateLimitedRequests = Counter.with({
+    name: "rate_limited_requests_total",
+    help: "Total number of requests rejected by the rate limiter.",
+    labels: ["scope"],
+    registry: [registry],
+});
+
+export const pipelineStageDuration = Histogram.with({
+    name: "pipeline_stage_duration_seconds",
+    help: "Duration of each stage of solving a player: player_fetch, disk_read, preprocess, get_from_prepared and verify_solvers. Solver calls are in solver_call_duration_seconds.",
+    labels: ["stage"],
+    buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
     registry: [registry],
-});
\ No newline at end of file
+});
+
+export async function timeStage<T>(stage: string, fn: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+        return await fn();
+    } finally {
+        pipelineStageDuration.labels({ stage }).observe((performance.now() - start) / 1000);
+    }
+}
@@ -1,5 +1,8 @@
-import { extractPlayerId } from "./utils.ts";
-import { endpointHits, responseCodes, endpointLatency } from "./metrics.ts";
+import { playerIdLabel, pluginVersionLabel, userAgentLabel } from "./metricLabels.ts";
+import { apiKeyRequests, endpointHits, errorCodes, responseCodes, endpointLatency } from "./metrics.ts";
+import { errorResponse, toHttpError } from "./errors.ts";
+import { logger } from "./logger.ts";
+import { recordPlayerRequest } from "./prewarm.ts";
 import type { RequestContext } from "./types.ts";
 
 type Next = (ctx: RequestContext) => Promise<Response>;
@@ -7,26 +10,38 @@ type Next = (ctx: RequestContext) => Promise<Response>;
 export function withMetrics(handler: Next): Next {
     return async (ctx: RequestContext) => {
         const { pathname } = new URL(ctx.req.url);
-        const playerId = extractPlayerId(ctx.body.player_url);
-        const pluginVersion = ctx.req.headers.get("Plugin-Version") ?? "unknown";
-        const userAgent = ctx.req.headers.get("User-Agent") ?? "unknown";
-
-        endpointHits.labels({ method: ctx.req.method, pathname, player_id: playerId, plugin_version: pluginVersion, user_agent: userAgent }).inc();
         const start = performance.now();
 
         let response: Response;
         try {
             response = await handler(ctx);
         } catch (e) {
-            const message = e instanceof Error ? e.message : String(e);
-            response = new Response(JSON.stringify({ error: message }), { status: 500, headers: { "Content-Type": "application/json" } });
+            const error = toHttpError(e);
+            if (error.code === 'INTERNAL_ERROR') {
+                logger.error(`Request failed`, { pathname, error: e });
+            }
+            errorCodes.labels({ pathname, code: error.code }).inc();
+            response = errorResponse(error);
         }
 
         const duration = (performance.now() - start) / 1000;
+        // HTTP bodies are only read further down the chain, and not at all when rate limited
+        const playerUrl = 'player_url' in ctx.body ? ctx.body.player_url : undefined;
+        const playerId = typeof playerUrl === 'string' ? playerIdLabel(playerUrl) : 'unknown';
+        const pluginVersion = pluginVersionLabel(ctx.req.headers.get("Plugin-Version") ?? "unknown");
+        const userAgent = userAgentLabel(ctx.req.headers.get("User-Agent") ?? "unknown");
+
+        endpointHits.labels({ method: ctx.req.method, pathname, player_id: playerId, plugin_version: pluginVersion, user_agent: userAgent }).inc();
         const cached = response.headers.get("X-Cache-Hit") === "true" ? "true" : "false";
         endpointLatency.labels({ method: ctx.req.method, pathname, player_id: playerId, cached}).observe(duration);
         responseCodes.labels({ method: ctx.req.method, pathname, status: String(response.status), player_id: playerId, plugin_version: pluginVersion, user_agent: userAgent }).inc();
 
+        apiKeyRequests.labels({ key_name: ctx.apiKeyName ?? 'anonymous', pathname, status: String(response.status) }).inc();
+
+        if (response.ok && 'player_url' in ctx.body) {
+            recordPlayerRequest(ctx.body.player_url);
+        }
+
         return response;
     };
 }
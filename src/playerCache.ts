@@ -1,15 +1,55 @@
 import { crypto } from "https://deno.land/std@0.224.0/crypto/mod.ts";
 import { ensureDir } from "https://deno.land/std@0.224.0/fs/ensure_dir.ts";
-import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
-import { cacheSize, playerScriptFetches } from "./metrics.ts";
-import { extractPlayerId } from "./utils.ts";
+import { basename, join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { cacheEvictions, cacheSize, timeStage } from "./metrics.ts";
+import { fetchPlayerScript } from "./fetcher.ts";
+import { extractPlayerId, parseByteSize } from "./utils.ts";
+import { SingleFlight } from "./singleFlight.ts";
+import { logger } from "./logger.ts";
+import { createPlayerStorage } from "./storage.ts";
+import { PlayerNotAvailableError } from "./errors.ts";
 
 const ignorePlayerScriptRegion = Deno.env.get("IGNORE_SCRIPT_REGION") === "true";
+// Never fetch players from upstream, they have to be uploaded or imported. See playerImport.ts
+const OFFLINE_MODE = Deno.env.get("OFFLINE_MODE") === "true";
 
 export const CACHE_HOME = Deno.env.get("XDG_CACHE_HOME") || join(Deno.env.get("HOME"), '.cache');
-export const CACHE_DIR = join(CACHE_HOME, 'yt-cipher', 'player_cache');
+// Parent of the player and preprocessed cache directories
+export const STORAGE_ROOT = join(CACHE_HOME, 'yt-cipher');
+export const CACHE_DIR = join(STORAGE_ROOT, 'player_cache');
 
-export async function getPlayerFilePath(playerUrl: string): Promise<string> {
+export const playerStorage = createPlayerStorage(STORAGE_ROOT);
+
+// Limits for each on-disk cache directory. 0 means no limit.
+let maxAgeDays = 14;
+let maxFiles = 0;
+let maxBytes = 0;
+
+// Unset or invalid values get the default, unlike a plain || an explicit 0 is kept
+function limitOrDefault(value: number | undefined, defaultValue: number): number {
+    return value === undefined || Number.isNaN(value) ? defaultValue : value;
+}
+
+// Also called after a settings reload
+export function readPlayerCacheLimits() {
+    maxAgeDays = limitOrDefault(parseFloat(Deno.env.get("PLAYER_CACHE_MAX_AGE_DAYS") ?? ""), 14);
+    maxFiles = limitOrDefault(parseInt(Deno.env.get("PLAYER_CACHE_MAX_FILES") ?? "", 10), 0);
+    maxBytes = limitOrDefault(parseByteSize(Deno.env.get("PLAYER_CACHE_MAX_BYTES") ?? ""), 0);
+}
+readPlayerCacheLimits();
+
+// Temp files of a write that is still going on (see writeTextFileAtomic) are left alone for this long,
+// older ones were left behind by a crash
+const TEMP_FILE_GRACE_MS = 10 * 60 * 1000;
+
+const playerFetches = new SingleFlight<string>('player_fetch');
+
+// cache key -> player url, so the admin API can show which player a hashed key belongs to.
+// Only covers players requested since startup.
+const MAX_KNOWN_PLAYER_URLS = 1000;
+const knownPlayerUrls = new Map<string, string>();
+
+export async function getPlayerCacheKey(playerUrl: string): Promise<string> {
     let cacheKey: string;
     if (ignorePlayerScriptRegion) {
         // I have not seen any scripts that differ between regions so this should be safe
@@ -21,58 +61,132 @@ export async function getPlayerFilePath(playerUrl: string): Promise<string> {
         const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(playerUrl));
         cacheKey = Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
     }
-    const filePath = join(CACHE_DIR, `${cacheKey}.js`);
+    return cacheKey;
+}
+
+export function getPlayerCachePath(cacheKey: string): string {
+    return join(CACHE_DIR, `${cacheKey}.js`);
+}
 
-    try {
-        const stat = await Deno.stat(filePath);
+export function getPlayerCacheKeyFromPath(filePath: string): string {
+    return basename(filePath, '.js');
+}
+
+export function getKnownPlayerUrl(cacheKey: string): string | undefined {
+    return knownPlayerUrls.get(cacheKey);
+}
+
+export function rememberPlayerUrl(cacheKey: string, playerUrl: string) {
+    knownPlayerUrls.delete(cacheKey);
+    knownPlayerUrls.set(cacheKey, playerUrl);
+    if (knownPlayerUrls.size > MAX_KNOWN_PLAYER_URLS) {
+        knownPlayerUrls.delete(knownPlayerUrls.keys().next().value!);
+    }
+}
+
+export async function getPlayerFilePath(playerUrl: string): Promise<string> {
+    const cacheKey = await getPlayerCacheKey(playerUrl);
+    const filePath = getPlayerCachePath(cacheKey);
+    rememberPlayerUrl(cacheKey, playerUrl);
+
+    if (await playerStorage.stat(filePath)) {
         // updated time on file mark it as recently used.
-        await Deno.utime(filePath, new Date(), stat.mtime ?? new Date());
+        await playerStorage.touch(filePath);
         return filePath;
-    } catch (error) {
-        if (error instanceof Deno.errors.NotFound) {
-            console.log(`Cache miss for player: ${playerUrl}. Fetching...`);
-            const response = await fetch(playerUrl);
-            playerScriptFetches.labels({ player_url: playerUrl, status: response.statusText }).inc();
-            if (!response.ok) {
-                throw new Error(`Failed to fetch player from ${playerUrl}: ${response.statusText}`);
-            }
-            const playerContent = await response.text();
-            await Deno.writeTextFile(filePath, playerContent);
+    }
+    return await playerFetches.run(filePath, () => fetchPlayer(playerUrl, filePath));
+}
 
-            // Update cache size for metrics
-            let fileCount = 0;
-            for await (const _ of Deno.readDir(CACHE_DIR)) {
-                fileCount++;
-            }
-            cacheSize.labels({ cache_name: 'player' }).set(fileCount);
-            
-            console.log(`Saved player to cache: ${filePath}`);
-            return filePath;
-        }
-        throw error;
+async function fetchPlayer(playerUrl: string, filePath: string): Promise<string> {
+    if (await playerStorage.pull(filePath)) {
+        await updatePlayerCacheSize();
+        return filePath;
+    }
+    if (OFFLINE_MODE) {
+        logger.warn(`Cache miss for player in offline mode`, { player_url: playerUrl });
+        throw new PlayerNotAvailableError(playerUrl);
     }
+
+    logger.info(`Cache miss for player, fetching`, { player_url: playerUrl });
+    const playerContent = await timeStage('player_fetch', () => fetchPlayerScript(playerUrl));
+
+    await playerStorage.write(filePath, playerContent);
+    await updatePlayerCacheSize();
+
+    logger.info(`Saved player to cache`, { player_url: playerUrl, file: filePath });
+    return filePath;
+}
+
+// Update cache size for metrics. Temp files of writes still going on are not counted, like in cleanupCacheDir
+export async function updatePlayerCacheSize() {
+    const fileNames = (await playerStorage.list(CACHE_DIR)).filter(fileName => !fileName.endsWith('.tmp'));
+    cacheSize.labels({ cache_name: 'player' }).set(fileNames.length);
 }
 
 export async function initializeCache() {
     await ensureDir(CACHE_DIR);
+    logger.info(`Cleaning up player cache directory: ${CACHE_DIR}`);
+    await evictPlayerCache();
+    logger.info(`Player cache directory ensured at: ${CACHE_DIR}`);
+}
 
-    // Since these accumulate over time just cleanout 14 day unused ones
-    let fileCount = 0;
-    const thirtyDays = 14 * 24 * 60 * 60 * 1000;
-    console.log(`Cleaning up player cache directory: ${CACHE_DIR}`);
-    for await (const dirEntry of Deno.readDir(CACHE_DIR)) {
-        if (dirEntry.isFile) {
-            const filePath = join(CACHE_DIR, dirEntry.name);
-            const stat = await Deno.stat(filePath);
-            const lastAccessed = stat.atime?.getTime() ?? stat.mtime?.getTime() ?? stat.birthtime?.getTime();
-            if (lastAccessed && (Date.now() - lastAccessed > thirtyDays)) {
-                console.log(`Deleting stale player cache file: ${filePath}`);
-                await Deno.remove(filePath);
-            } else {
-                fileCount++;
+export async function evictPlayerCache() {
+    const fileCount = await cleanupCacheDir(CACHE_DIR, 'player');
+    cacheSize.labels({ cache_name: 'player' }).set(fileCount);
+}
+
+// Since these accumulate over time clean out files unused for PLAYER_CACHE_MAX_AGE_DAYS, plus anything
+// isObsolete flags and stale temp files. Then the least recently used files go until the directory is within
+// PLAYER_CACHE_MAX_FILES and PLAYER_CACHE_MAX_BYTES. Returns the number of files left in the directory.
+export async function cleanupCacheDir(dir: string, cacheName: string, isObsolete: (fileName: string) => boolean = () => false): Promise<number> {
+    const maxAge = maxAgeDays * 24 * 60 * 60 * 1000;
+    const files: { filePath: string; size: number; lastAccessed: number }[] = [];
+
+    for (const fileName of await playerStorage.list(dir)) {
+        const filePath = join(dir, fileName);
+        const stat = await playerStorage.stat(filePath);
+        // Renamed or evicted since the directory was read
+        if (!stat) {
+            continue;
+        }
+        const { lastAccessed } = stat;
+        if (fileName.endsWith('.tmp')) {
+            if (Date.now() - lastAccessed > TEMP_FILE_GRACE_MS) {
+                await removeCacheFile(filePath, cacheName, 'obsolete');
             }
+        } else if (isObsolete(fileName)) {
+            await removeCacheFile(filePath, cacheName, 'obsolete');
+        } else if (maxAge && Date.now() - lastAccessed > maxAge) {
+            await removeCacheFile(filePath, cacheName, 'age');
+        } else {
+            files.push({ filePath, size: stat.size, lastAccessed });
         }
     }
-    cacheSize.labels({ cache_name: 'player' }).set(fileCount);
-    console.log(`Player cache directory ensured at: ${CACHE_DIR}`);
+
+    // Most recently used first, everything after the first file over a limit goes
+    files.sort((a, b) => b.lastAccessed - a.lastAccessed);
+    let fileCount = 0;
+    let totalBytes = 0;
+    let overLimit: string | undefined;
+    for (const file of files) {
+        if (!overLimit && maxFiles && fileCount + 1 > maxFiles) {
+            overLimit = 'max_files';
+        } else if (!overLimit && maxBytes && totalBytes + file.size > maxBytes) {
+            overLimit = 'max_bytes';
+        }
+        if (overLimit) {
+            await removeCacheFile(file.filePath, cacheName, overLimit);
+        } else {
+            fileCount++;
+            totalBytes += file.size;
+        }
+    }
+    return fileCount;
+}
+
+async function removeCacheFile(filePath: string, cacheName: string, reason: string) {
+    logger.info(`Deleting cache file`, { file: filePath, reason });
+    if (await playerStorage.delete(filePath)) {
+        cacheEvictions.labels({ cache_name: cacheName, reason }).inc();
+    }
 }
@@ -0,0 +1,65 @@
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { getPlayerCacheKey, getPlayerCachePath, playerStorage, rememberPlayerUrl, updatePlayerCacheSize } from "./playerCache.ts";
+import { evictPlayer } from "./cacheAdmin.ts";
+import { parseJsonObject, validatePlayerUpload } from "./validation.ts";
+import { logger } from "./logger.ts";
+import type { PlayerImportResult } from "./types.ts";
+
+// Players are imported from every .json file in this directory at startup. Each holds the same
+// body as PUT /admin/players. Files stay in place, unchanged players are skipped on the next start.
+const PLAYER_IMPORT_DIR = Deno.env.get("PLAYER_IMPORT_DIR");
+
+// Places a player script obtained elsewhere in the cache, under the key fetching it from playerUrl would use.
+// A different script cached under that key is evicted first, together with everything derived from it.
+export async function importPlayer(playerUrl: string, script: string): Promise<{ cacheKey: string; result: PlayerImportResult }> {
+    const cacheKey = await getPlayerCacheKey(playerUrl);
+    const filePath = getPlayerCachePath(cacheKey);
+    rememberPlayerUrl(cacheKey, playerUrl);
+
+    const existing = await playerStorage.read(filePath);
+    if (existing === script) {
+        return { cacheKey, result: 'unchanged' };
+    }
+    if (existing !== null) {
+        await evictPlayer(cacheKey);
+    }
+    await playerStorage.write(filePath, script);
+    await updatePlayerCacheSize();
+
+    const result = existing === null ? 'created' : 'replaced';
+    logger.info(`Imported player`, { player_url: playerUrl, file: filePath, result });
+    return { cacheKey, result };
+}
+
+export async function importPlayersFromDir() {
+    if (!PLAYER_IMPORT_DIR) {
+        return;
+    }
+    const fileNames: string[] = [];
+    try {
+        for await (const dirEntry of Deno.readDir(PLAYER_IMPORT_DIR)) {
+            if (dirEntry.isFile && dirEntry.name.endsWith('.json')) {
+                fileNames.push(dirEntry.name);
+            }
+        }
+    } catch (e) {
+        logger.error(`Failed to read player import directory`, { dir: PLAYER_IMPORT_DIR, error: e });
+        return;
+    }
+
+    // A bad file is skipped, the others are still imported
+    let imported = 0;
+    for (const fileName of fileNames.sort()) {
+        const file = join(PLAYER_IMPORT_DIR, fileName);
+        try {
+            const { player_url, script } = validatePlayerUpload(parseJsonObject(await Deno.readTextFile(file)));
+            const { result } = await importPlayer(player_url, script);
+            if (result !== 'unchanged') {
+                imported++;
+            }
+        } catch (e) {
+            logger.error(`Failed to import player file`, { file, error: e });
+        }
+    }
+    logger.info(`Imported ${imported} of ${fileNames.length} player files`, { dir: PLAYER_IMPORT_DIR });
+}
@@ -1,6 +1,176 @@
-import { InstrumentedLRU } from "./instrumentedCache.ts";
+import { ensureDir } from "https://deno.land/std@0.224.0/fs/ensure_dir.ts";
+import { walk } from "https://deno.land/std@0.224.0/fs/walk.ts";
+import { basename, dirname, fromFileUrl, join, relative } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { getFromPrepared, preprocessPlayer } from "../ejs/src/yt/solver/solvers.ts";
+import { type ByteBudget, InstrumentedLRU } from "./instrumentedCache.ts";
+import { CACHE_DIR, cleanupCacheDir, getPlayerCachePath, playerStorage, STORAGE_ROOT } from "./playerCache.ts";
+import { cacheLookups, cacheSize } from "./metrics.ts";
+import { parseByteSize } from "./utils.ts";
+import { logger } from "./logger.ts";
+
+const DEFAULT_CACHE_SIZE = 150;
+
+// PREPROCESSED_CACHE_SIZE is either an entry count ("150") or a memory budget ("64MB").
+function readCacheLimits(): { maxSize: number; byteBudget?: ByteBudget<string> } {
+    const cacheSizeEnv = Deno.env.get('PREPROCESSED_CACHE_SIZE')?.trim();
+    if (cacheSizeEnv && /[a-z]$/i.test(cacheSizeEnv)) {
+        const maxCacheBytes = parseByteSize(cacheSizeEnv);
+        if (!maxCacheBytes) {
+            // Taking the number alone as an entry count would make "64M" a 64 player cache
+            logger.warn(`Invalid PREPROCESSED_CACHE_SIZE, using the default`, { value: cacheSizeEnv, default: DEFAULT_CACHE_SIZE });
+            return { maxSize: DEFAULT_CACHE_SIZE };
+        }
+        // Player scripts are almost entirely ASCII, so one byte per character is close enough
+        return { maxSize: Infinity, byteBudget: { maxBytes: maxCacheBytes, sizeOf: (value) => value.length } };
+    }
+    return { maxSize: cacheSizeEnv ? parseInt(cacheSizeEnv, 10) || DEFAULT_CACHE_SIZE : DEFAULT_CACHE_SIZE };
+}
 
 // The key is the hash of the player URL, and the value is the preprocessed script content.
-const cacheSizeEnv = Deno.env.get('PREPROCESSED_CACHE_SIZE');
-const maxCacheSize = cacheSizeEnv ? parseInt(cacheSizeEnv, 10) : 150;
-export const preprocessedCache = new InstrumentedLRU<string>('preprocessed', maxCacheSize);
\ No newline at end of file
+const cacheLimits = readCacheLimits();
+export const preprocessedCache = new InstrumentedLRU<string>('preprocessed', cacheLimits.maxSize, { byteBudget: cacheLimits.byteBudget });
+
+// Called after a settings reload
+export function resizePreprocessedCache() {
+    const { maxSize, byteBudget } = readCacheLimits();
+    preprocessedCache.resize(maxSize, byteBudget);
+}
+
+// Second tier on disk so preprocessing survives restarts. Files are named
+// <player cache key>.<solver fingerprint>.js so a solver upgrade never reads old output.
+const diskCacheEnabled = Deno.env.get('PREPROCESSED_DISK_CACHE') !== 'false';
+export const PREPROCESSED_CACHE_DIR = join(STORAGE_ROOT, 'preprocessed_cache');
+
+const EJS_SRC_DIR = fromFileUrl(new URL("../ejs/src", import.meta.url));
+
+let solverFingerprint: Promise<string> | undefined;
+
+// Every ejs source file, sorted by path. Empty when they are not on disk, e.g. in a compiled binary
+async function readEjsSources(): Promise<string[]> {
+    const sources: { path: string; content: string }[] = [];
+    try {
+        for await (const entry of walk(EJS_SRC_DIR, { exts: ['.ts', '.js'] })) {
+            if (entry.isFile) {
+                sources.push({ path: relative(EJS_SRC_DIR, entry.path), content: await Deno.readTextFile(entry.path) });
+            }
+        }
+    } catch (e) {
+        logger.debug(`Could not read ejs sources for the solver fingerprint`, { dir: EJS_SRC_DIR, error: e });
+        return [];
+    }
+    return sources.sort((a, b) => a.path < b.path ? -1 : 1).flatMap(({ path, content }) => [path, content]);
+}
+
+// EJS_VERSION is set at build time to the pinned ejs commit. The ejs sources are hashed as well
+// so local checkouts, patched or not, get a distinct fingerprint. Without them on disk the solver
+// entrypoints are the best we have.
+function getSolverFingerprint(): Promise<string> {
+    solverFingerprint ??= (async () => {
+        let sources = await readEjsSources();
+        if (sources.length === 0) {
+            sources = [preprocessPlayer.toString(), getFromPrepared.toString()];
+        }
+        const source = [Deno.env.get('EJS_VERSION') ?? '', ...sources].join('\n');
+        const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+        return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('').slice(0, 16);
+    })();
+    return solverFingerprint;
+}
+
+// Files are named by the player cache key, so players loaded from anywhere else (like the CLI's
+// local files) only use the memory tier
+function usesDiskTier(playerCacheKey: string): boolean {
+    return diskCacheEnabled && dirname(playerCacheKey) === CACHE_DIR;
+}
+
+async function getDiskCachePath(playerCacheKey: string): Promise<string> {
+    const fingerprint = await getSolverFingerprint();
+    return join(PREPROCESSED_CACHE_DIR, `${basename(playerCacheKey, '.js')}.${fingerprint}.js`);
+}
+
+export async function readPreprocessedFromDisk(playerCacheKey: string): Promise<string | undefined> {
+    if (!usesDiskTier(playerCacheKey)) {
+        return undefined;
+    }
+    const filePath = await getDiskCachePath(playerCacheKey);
+    let content = await playerStorage.read(filePath);
+    if (content === null && await playerStorage.pull(filePath)) {
+        cacheSize.labels({ cache_name: 'preprocessed_disk' }).inc();
+        content = await playerStorage.read(filePath);
+    }
+    if (content === null) {
+        cacheLookups.labels({ cache_name: 'preprocessed_disk', result: 'miss' }).inc();
+        return undefined;
+    }
+    await playerStorage.touch(filePath);
+    cacheLookups.labels({ cache_name: 'preprocessed_disk', result: 'hit' }).inc();
+    return content;
+}
+
+export async function writePreprocessedToDisk(playerCacheKey: string, preprocessedPlayer: string): Promise<void> {
+    if (!usesDiskTier(playerCacheKey)) {
+        return;
+    }
+    try {
+        const filePath = await getDiskCachePath(playerCacheKey);
+        // It can already exist, e.g. when prewarming and a live request both preprocessed the player
+        const existed = await playerStorage.stat(filePath) !== null;
+        await playerStorage.write(filePath, preprocessedPlayer);
+        if (!existed) {
+            cacheSize.labels({ cache_name: 'preprocessed_disk' }).inc();
+        }
+    } catch (e) {
+        // The memory tier still has it, so a failed write only costs us after a restart
+        logger.error(`Failed to write preprocessed player to disk`, { file: playerCacheKey, error: e });
+    }
+}
+
+export async function removePreprocessedFromDisk(playerCacheKey: string): Promise<void> {
+    if (!diskCacheEnabled) {
+        return;
+    }
+    if (await playerStorage.delete(await getDiskCachePath(playerCacheKey))) {
+        cacheSize.labels({ cache_name: 'preprocessed_disk' }).dec();
+    }
+}
+
+export async function hasPreprocessedOnDisk(playerCacheKey: string): Promise<boolean> {
+    if (!diskCacheEnabled) {
+        return false;
+    }
+    return await playerStorage.stat(await getDiskCachePath(playerCacheKey)) !== null;
+}
+
+// Player cache keys (as file paths, like the in-memory tier) with preprocessed output on disk
+export async function listPreprocessedOnDisk(): Promise<Set<string>> {
+    const keys = new Set<string>();
+    if (!diskCacheEnabled) {
+        return keys;
+    }
+    const suffix = `.${await getSolverFingerprint()}.js`;
+    for (const fileName of await playerStorage.list(PREPROCESSED_CACHE_DIR)) {
+        if (fileName.endsWith(suffix)) {
+            keys.add(getPlayerCachePath(fileName.slice(0, -suffix.length)));
+        }
+    }
+    return keys;
+}
+
+export async function initializePreprocessedCache() {
+    if (!diskCacheEnabled) {
+        return;
+    }
+    await ensureDir(PREPROCESSED_CACHE_DIR);
+    logger.info(`Cleaning up preprocessed cache directory: ${PREPROCESSED_CACHE_DIR}`, { solver_fingerprint: await getSolverFingerprint() });
+    await evictPreprocessedDiskCache();
+}
+
+// Drops output of other solver versions, and applies the same limits as the player cache
+export async function evictPreprocessedDiskCache() {
+    if (!diskCacheEnabled) {
+        return;
+    }
+    const fingerprint = await getSolverFingerprint();
+    const fileCount = await cleanupCacheDir(PREPROCESSED_CACHE_DIR, 'preprocessed_disk', (fileName) => !fileName.endsWith(`.${fingerprint}.js`));
+    cacheSize.labels({ cache_name: 'preprocessed_disk' }).set(fileCount);
+}
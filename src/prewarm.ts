@@ -0,0 +1,119 @@
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { getSolvers } from "./solver.ts";
+import { CACHE_HOME } from "./playerCache.ts";
+import { playerUrlRequests, prewarmedPlayers } from "./metrics.ts";
+import { playerIdLabel } from "./metricLabels.ts";
+import { validateAndNormalizePlayerUrl, writeTextFileAtomic } from "./utils.ts";
+import type { PrewarmResult } from "./types.ts";
+import { logger } from "./logger.ts";
+
+const PREWARM_PLAYERS = Deno.env.get("PREWARM_PLAYERS") ?? "";
+const PREWARM_PLAYERS_FILE = Deno.env.get("PREWARM_PLAYERS_FILE");
+// Re-warm this many of the most recently requested players periodically and after a restart, 0 disables it
+const PREWARM_RECENT_COUNT = parseInt(Deno.env.get("PREWARM_RECENT_COUNT") || "", 10) || 0;
+const PREWARM_INTERVAL_SECONDS = parseInt(Deno.env.get("PREWARM_INTERVAL_SECONDS") || "", 10) || 600;
+
+const RECENT_PLAYERS_FILE = join(CACHE_HOME, 'yt-cipher', 'recent_players.json');
+const MAX_TRACKED_PLAYERS = 1000;
+
+let refreshTimer: ReturnType<typeof setInterval> | undefined;
+
+// player url -> last time it was successfully requested, in insertion order (oldest first)
+const recentPlayers = new Map<string, number>();
+
+export function recordPlayerRequest(playerUrl: string) {
+    playerUrlRequests.labels({ player_id: playerIdLabel(playerUrl) }).inc();
+    recentPlayers.delete(playerUrl);
+    recentPlayers.set(playerUrl, Date.now());
+    if (recentPlayers.size > MAX_TRACKED_PLAYERS) {
+        recentPlayers.delete(recentPlayers.keys().next().value!);
+    }
+}
+
+function getMostRecentPlayers(count: number): string[] {
+    return Array.from(recentPlayers.keys()).slice(-count).reverse();
+}
+
+export async function prewarmPlayers(playerUrls: string[], source: string): Promise<PrewarmResult[]> {
+    return await Promise.all(playerUrls.map(async (rawUrl): Promise<PrewarmResult> => {
+        const start = performance.now();
+        try {
+            const playerUrl = validateAndNormalizePlayerUrl(rawUrl);
+            // Low priority so prewarming never delays live requests waiting on the worker pool
+            const solvers = await getSolvers(playerUrl, { lowPriority: true });
+            if (!solvers) {
+                throw new Error("Failed to generate solvers from player script");
+            }
+            prewarmedPlayers.labels({ source, status: 'success' }).inc();
+            return { player_url: playerUrl, success: true, duration_ms: Math.round(performance.now() - start) };
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            prewarmedPlayers.labels({ source, status: 'error' }).inc();
+            logger.warn(`Failed to prewarm player`, { player_url: rawUrl, error: message });
+            return { player_url: rawUrl, success: false, error: message, duration_ms: Math.round(performance.now() - start) };
+        }
+    }));
+}
+
+async function readConfiguredPlayers(): Promise<string[]> {
+    const players = PREWARM_PLAYERS.split(/[\s,]+/);
+    if (PREWARM_PLAYERS_FILE) {
+        try {
+            // One player url per line, # starts a comment
+            const content = await Deno.readTextFile(PREWARM_PLAYERS_FILE);
+            players.push(...content.split('\n').map(line => line.replace(/#.*/, '')));
+        } catch (e) {
+            logger.error(`Failed to read prewarm players file`, { file: PREWARM_PLAYERS_FILE, error: e });
+        }
+    }
+    return players.map(p => p.trim()).filter(p => p !== '');
+}
+
+async function loadRecentPlayers(): Promise<string[]> {
+    try {
+        const entries = JSON.parse(await Deno.readTextFile(RECENT_PLAYERS_FILE)) as { player_url: string; last_requested: number }[];
+        // Oldest first, so the map keeps its recency order
+        entries.sort((a, b) => a.last_requested - b.last_requested);
+        for (const { player_url, last_requested } of entries) {
+            recentPlayers.set(player_url, last_requested);
+        }
+        return entries.map(e => e.player_url);
+    } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) {
+            logger.error(`Failed to read recent players file`, { file: RECENT_PLAYERS_FILE, error: e });
+        }
+        return [];
+    }
+}
+
+async function refreshRecentPlayers() {
+    const players = getMostRecentPlayers(PREWARM_RECENT_COUNT);
+    const entries = players.map(player_url => ({ player_url, last_requested: recentPlayers.get(player_url)! }));
+    try {
+        await writeTextFileAtomic(RECENT_PLAYERS_FILE, JSON.stringify(entries));
+    } catch (e) {
+        logger.error(`Failed to write recent players file`, { file: RECENT_PLAYERS_FILE, error: e });
+    }
+    // Puts anything the in-memory caches have evicted since back in place
+    await prewarmPlayers(players, 'refresh');
+}
+
+export async function startPrewarming() {
+    const players = new Set(await readConfiguredPlayers());
+    if (PREWARM_RECENT_COUNT > 0) {
+        for (const player of (await loadRecentPlayers()).slice(-PREWARM_RECENT_COUNT)) {
+            players.add(player);
+        }
+        refreshTimer = setInterval(refreshRecentPlayers, PREWARM_INTERVAL_SECONDS * 1000);
+    }
+
+    if (players.size > 0) {
+        logger.info(`Prewarming ${players.size} players`);
+        const results = await prewarmPlayers(Array.from(players), 'startup');
+        logger.info(`Prewarmed ${results.filter(r => r.success).length}/${results.length} players`);
+    }
+}
+
+export function stopPrewarming() {
+    clearInterval(refreshTimer);
+}
@@ -0,0 +1,192 @@
+import { rateLimitedRequests } from "./metrics.ts";
+import { RateLimitError } from "./errors.ts";
+import { getKeyRateLimit } from "./auth.ts";
+import { logger } from "./logger.ts";
+import type { RequestContext } from "./types.ts";
+
+type Next = (ctx: RequestContext) => Promise<Response>;
+
+// Limits are in requests per second, unset or 0 disables that scope
+const RATE_LIMIT_GLOBAL = parseFloat(Deno.env.get("RATE_LIMIT_GLOBAL") || "") || 0;
+const RATE_LIMIT_PER_IP = parseFloat(Deno.env.get("RATE_LIMIT_PER_IP") || "") || 0;
+const RATE_LIMIT_PER_KEY = parseFloat(Deno.env.get("RATE_LIMIT_PER_KEY") || "") || 0;
+// How many seconds worth of requests a client may send in one burst
+const RATE_LIMIT_BURST_SECONDS = parseFloat(Deno.env.get("RATE_LIMIT_BURST_SECONDS") || "") || 1;
+// X-Forwarded-For is only read when the connection comes from one of these (IPs or CIDR ranges)
+const TRUSTED_PROXIES = parseTrustedProxies(Deno.env.get("TRUSTED_PROXIES") ?? "");
+
+const MAX_TRACKED_BUCKETS = 10_000;
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+class TokenBucketLimiter {
+    private buckets = new Map<string, Bucket>();
+
+    // The rate is looked up per key, so API keys can have their own
+    constructor(readonly scope: string, private rateFor: (key: string) => number) {}
+
+    isEnabled(key: string): boolean {
+        return this.rateFor(key) > 0;
+    }
+
+    private capacity(ratePerSecond: number): number {
+        return Math.max(1, ratePerSecond * RATE_LIMIT_BURST_SECONDS);
+    }
+
+    // Refills the bucket and returns it, without taking a token
+    peek(key: string, now: number): Bucket {
+        const ratePerSecond = this.rateFor(key);
+        const capacity = this.capacity(ratePerSecond);
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            if (this.buckets.size >= MAX_TRACKED_BUCKETS) {
+                this.sweep(now);
+            }
+            bucket = { tokens: capacity, updatedAt: now };
+            this.buckets.set(key, bucket);
+        }
+        const elapsed = (now - bucket.updatedAt) / 1000;
+        bucket.tokens = Math.min(capacity, bucket.tokens + elapsed * ratePerSecond);
+        bucket.updatedAt = now;
+        return bucket;
+    }
+
+    retryAfterSeconds(key: string, bucket: Bucket): number {
+        return Math.max(1, Math.ceil((1 - bucket.tokens) / this.rateFor(key)));
+    }
+
+    // Buckets that have refilled completely behave like new ones, so they can go
+    private sweep(now: number) {
+        for (const [key, bucket] of this.buckets) {
+            const ratePerSecond = this.rateFor(key);
+            if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * ratePerSecond >= this.capacity(ratePerSecond)) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
+
+const globalLimiter = new TokenBucketLimiter('global', () => RATE_LIMIT_GLOBAL);
+const ipLimiter = new TokenBucketLimiter('ip', () => RATE_LIMIT_PER_IP);
+// A key's own rate_limit takes precedence over RATE_LIMIT_PER_KEY
+const keyLimiter = new TokenBucketLimiter('key', (keyName) => getKeyRateLimit(keyName) ?? RATE_LIMIT_PER_KEY);
+
+function parseIp(ip: string): { bits: bigint; size: number } | null {
+    if (ip.includes(':')) {
+        // IPv4-mapped IPv6 addresses are treated as their IPv4 form
+        const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+        if (mapped) {
+            return parseIp(mapped[1]);
+        }
+        const [head, tail = ''] = ip.split('::');
+        const headParts = head ? head.split(':') : [];
+        const tailParts = tail ? tail.split(':') : [];
+        const missing = 8 - headParts.length - tailParts.length;
+        if (missing < 0 || (!ip.includes('::') && missing !== 0)) {
+            return null;
+        }
+        const parts = [...headParts, ...Array(missing).fill('0'), ...tailParts];
+        let bits = 0n;
+        for (const part of parts) {
+            if (!/^[0-9a-f]{1,4}$/i.test(part)) {
+                return null;
+            }
+            bits = (bits << 16n) | BigInt(parseInt(part, 16));
+        }
+        return { bits, size: 128 };
+    }
+    const parts = ip.split('.');
+    if (parts.length !== 4 || parts.some(p => !/^\d{1,3}$/.test(p) || Number(p) > 255)) {
+        return null;
+    }
+    return { bits: parts.reduce((acc, p) => (acc << 8n) | BigInt(p), 0n), size: 32 };
+}
+
+interface ProxyRange {
+    bits: bigint;
+    size: number;
+    prefix: number;
+}
+
+// Parsed once at startup. Bad entries are logged and left out, prefixes are clamped to the address size
+function parseTrustedProxies(value: string): ProxyRange[] {
+    const ranges: ProxyRange[] = [];
+    for (const entry of value.split(",").map(p => p.trim()).filter(p => p !== "")) {
+        const [range, prefixText, ...rest] = entry.split('/');
+        const network = parseIp(range);
+        if (!network || rest.length > 0 || (prefixText !== undefined && !/^\d+$/.test(prefixText))) {
+            logger.warn(`Ignoring invalid TRUSTED_PROXIES entry`, { entry });
+            continue;
+        }
+        const prefix = prefixText === undefined ? network.size : Math.min(parseInt(prefixText, 10), network.size);
+        ranges.push({ ...network, prefix });
+    }
+    return ranges;
+}
+
+function isTrustedProxy(ip: string): boolean {
+    const addr = parseIp(ip);
+    if (!addr) {
+        return false;
+    }
+    return TRUSTED_PROXIES.some(range => {
+        if (range.size !== addr.size) {
+            return false;
+        }
+        const shift = BigInt(range.size - range.prefix);
+        return (range.bits >> shift) === (addr.bits >> shift);
+    });
+}
+
+// Walks X-Forwarded-For from the right, skipping our own proxies, so clients cannot spoof their IP
+export function getClientIp(req: Request, remoteIp: string): string {
+    if (!isTrustedProxy(remoteIp)) {
+        return remoteIp;
+    }
+    const forwardedFor = req.headers.get("x-forwarded-for");
+    if (!forwardedFor) {
+        return remoteIp;
+    }
+    const hops = forwardedFor.split(',').map(h => h.trim()).filter(h => h !== '');
+    for (let i = hops.length - 1; i >= 0; i--) {
+        if (!isTrustedProxy(hops[i])) {
+            return hops[i];
+        }
+    }
+    return hops[0] ?? remoteIp;
+}
+
+export function withRateLimit(handler: Next): Next {
+    return async (ctx: RequestContext) => {
+        const now = Date.now();
+        const checks: [TokenBucketLimiter, string][] = [];
+        if (globalLimiter.isEnabled('global')) {
+            checks.push([globalLimiter, 'global']);
+        }
+        if (ctx.clientIp && ipLimiter.isEnabled(ctx.clientIp)) {
+            checks.push([ipLimiter, ctx.clientIp]);
+        }
+        if (ctx.apiKeyName && ctx.apiKeyName !== 'anonymous' && keyLimiter.isEnabled(ctx.apiKeyName)) {
+            checks.push([keyLimiter, ctx.apiKeyName]);
+        }
+
+        // Only take tokens once every scope allows the request, so a rejection costs nothing
+        const buckets = checks.map(([limiter, key]) => [limiter, key, limiter.peek(key, now)] as const);
+        const exceeded = buckets.filter(([, , bucket]) => bucket.tokens < 1);
+        if (exceeded.length > 0) {
+            for (const [limiter] of exceeded) {
+                rateLimitedRequests.labels({ scope: limiter.scope }).inc();
+            }
+            const retryAfter = Math.max(...exceeded.map(([limiter, key, bucket]) => limiter.retryAfterSeconds(key, bucket)));
+            throw new RateLimitError(retryAfter);
+        }
+        for (const [, , bucket] of buckets) {
+            bucket.tokens -= 1;
+        }
+
+        return await handler(ctx);
+    };
+}
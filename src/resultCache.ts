@@ -0,0 +1,73 @@
+import { InstrumentedLRU } from "./instrumentedCache.ts";
+import { getPlayerCacheKey, getPlayerCachePath } from "./playerCache.ts";
+import type { SolverName, Solvers } from "./types.ts";
+
+// Solver outputs are deterministic per player, so repeated inputs (retries, several clients
+// on one video, /resolve_url after /decrypt_signature) are answered from here.
+// key = player file path + solver + input. Disabled unless RESULT_CACHE_SIZE is set.
+function readCacheSize(): number {
+    const cacheSizeEnv = Deno.env.get('RESULT_CACHE_SIZE');
+    return cacheSizeEnv ? parseInt(cacheSizeEnv, 10) : 0;
+}
+
+let maxCacheSize = readCacheSize();
+const RESULT_CACHE_TTL_SECONDS = parseInt(Deno.env.get('RESULT_CACHE_TTL_SECONDS') || "", 10) || 3600;
+export const resultCache = new InstrumentedLRU<string>('result', Math.max(maxCacheSize, 1), { ttlMs: RESULT_CACHE_TTL_SECONDS * 1000 });
+
+// Called after a settings reload. Setting the size to 0 disables the cache and drops what it holds
+export function resizeResultCache() {
+    maxCacheSize = readCacheSize();
+    if (maxCacheSize <= 0) {
+        resultCache.clear();
+    }
+    resultCache.resize(Math.max(maxCacheSize, 1));
+}
+
+export interface ResultCacheUsage {
+    hits: number;
+    misses: number;
+}
+
+function resultKey(playerCacheKey: string, solver: SolverName, input: string): string {
+    return `${playerCacheKey}\n${solver}\n${input}`;
+}
+
+// For the X-Cache-Hit header: only a response built entirely from cached results is a hit
+export function isCacheHit(usage: ResultCacheUsage): boolean {
+    return usage.hits > 0 && usage.misses === 0;
+}
+
+export async function memoizeSolvers(playerUrl: string, solvers: Solvers, usage: ResultCacheUsage): Promise<Solvers> {
+    if (maxCacheSize <= 0) {
+        return solvers;
+    }
+    const playerCacheKey = getPlayerCachePath(await getPlayerCacheKey(playerUrl));
+    const memoize = (solver: SolverName, fn: ((val: string) => Promise<string>) | null) => {
+        if (!fn) {
+            return null;
+        }
+        return async (input: string) => {
+            const key = resultKey(playerCacheKey, solver, input);
+            const cached = resultCache.get(key);
+            if (cached !== undefined) {
+                usage.hits++;
+                return cached;
+            }
+            usage.misses++;
+            const output = await fn(input);
+            resultCache.set(key, output);
+            return output;
+        };
+    };
+    return { sig: memoize('sig', solvers.sig), n: memoize('n', solvers.n) };
+}
+
+// Used when a player is evicted, so its old outputs are not served for a re-fetched script
+export function removePlayerResults(playerCacheKey: string) {
+    const prefix = `${playerCacheKey}\n`;
+    for (const { key } of resultCache.list()) {
+        if (key.startsWith(prefix)) {
+            resultCache.delete(key);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,183 @@
+// Request body schemas. withValidation checks requests against these, and
+// scripts/generate-swagger.ts writes them into docs/swagger.yaml, so both always agree.
+// They use the subset of the OpenAPI 3.0 schema object that the validator understands.
+
+export interface StringSchema {
+    type: 'string';
+    description?: string;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+}
+
+export interface ArraySchema {
+    type: 'array';
+    description?: string;
+    items: Schema;
+    minItems?: number;
+    maxItems?: number;
+    // The handler validates each item itself, so one bad item does not fail the whole request
+    'x-validate-items-separately'?: boolean;
+}
+
+export interface ObjectSchema {
+    type: 'object';
+    description?: string;
+    properties: Record<string, Schema>;
+    required?: string[];
+}
+
+export type Schema = StringSchema | ArraySchema | ObjectSchema;
+
+const maxBatchSizeEnv = Deno.env.get('MAX_BATCH_SIZE');
+export const MAX_BATCH_SIZE = maxBatchSizeEnv ? parseInt(maxBatchSizeEnv, 10) : 100;
+
+const playerUrl: StringSchema = {
+    type: 'string',
+    description: 'URL or path of the player script, on one of the ALLOWED_HOSTNAMES',
+    minLength: 1,
+    maxLength: 2048,
+};
+
+// Signatures and n values are URL safe base64-like strings. % is allowed for clients that send them URL encoded
+const cipherValue = (description: string): StringSchema => ({
+    type: 'string',
+    description,
+    maxLength: 1024,
+    pattern: '^[A-Za-z0-9_=.%-]*$',
+});
+
+const signatureRequest: ObjectSchema = {
+    type: 'object',
+    properties: {
+        encrypted_signature: cipherValue('The encrypted signature from the video stream'),
+        n_param: cipherValue('The n parameter value'),
+        player_url: playerUrl,
+    },
+    required: ['player_url'],
+};
+
+const batchSignatureRequest: ObjectSchema = {
+    type: 'object',
+    properties: {
+        items: {
+            type: 'array',
+            description: 'Each item is validated separately, an invalid item only fails itself',
+            items: signatureRequest,
+            minItems: 1,
+            maxItems: MAX_BATCH_SIZE,
+            'x-validate-items-separately': true,
+        },
+    },
+    required: ['items'],
+};
+
+const stsRequest: ObjectSchema = {
+    type: 'object',
+    properties: {
+        player_url: playerUrl,
+    },
+    required: ['player_url'],
+};
+
+// Cipher blobs carry the whole stream url, percent encoded
+const streamOrCipher: StringSchema = {
+    type: 'string',
+    minLength: 1,
+    maxLength: 16384,
+};
+
+const resolveUrlRequest: ObjectSchema = {
+    type: 'object',
+    description: 'Pass exactly one of stream_url, signature_cipher or streams',
+    properties: {
+        stream_url: {
+            type: 'string',
+            description: 'The stream URL to resolve',
+            minLength: 1,
+            maxLength: 8192,
+        },
+        signature_cipher: {
+            ...streamOrCipher,
+            description: 'A raw signatureCipher (or cipher) value holding url, s and sp. Replaces stream_url, encrypted_signature and signature_key',
+        },
+        streams: {
+            type: 'array',
+            description: 'Stream URLs and signatureCipher values of one player, resolved in one request. Each stream succeeds or fails on its own',
+            items: streamOrCipher,
+            minItems: 1,
+            maxItems: MAX_BATCH_SIZE,
+        },
+        player_url: playerUrl,
+        encrypted_signature: cipherValue('The encrypted signature, when the stream URL needs one'),
+        signature_key: {
+            type: 'string',
+            description: "Query parameter to put the decrypted signature in, default: 'sig'",
+            maxLength: 32,
+            pattern: '^[A-Za-z0-9_]+$',
+        },
+        n_param: cipherValue('The n parameter value. Taken from stream_url when not given'),
+    },
+    required: ['player_url'],
+};
+
+const playerInfoRequest: ObjectSchema = {
+    type: 'object',
+    properties: {
+        player_url: playerUrl,
+        test_signature: cipherValue('Run the sig solver on this value and return the output'),
+        test_n: cipherValue('Run the n solver on this value and return the output'),
+    },
+    required: ['player_url'],
+};
+
+const prewarmRequest: ObjectSchema = {
+    type: 'object',
+    properties: {
+        player_urls: {
+            type: 'array',
+            items: playerUrl,
+            minItems: 1,
+            maxItems: MAX_BATCH_SIZE,
+        },
+    },
+    required: ['player_urls'],
+};
+
+const playerUploadRequest: ObjectSchema = {
+    type: 'object',
+    properties: {
+        player_url: {
+            ...playerUrl,
+            description: 'URL the player is requested with. The script is cached under the same key as if it had been fetched from there',
+        },
+        script: {
+            type: 'string',
+            description: 'Content of the player script',
+            minLength: 1,
+        },
+    },
+    required: ['player_url', 'script'],
+};
+
+// Keyed by the name used under components.schemas in docs/swagger.yaml
+export const requestSchemas: Record<string, ObjectSchema> = {
+    SignatureRequest: signatureRequest,
+    BatchSignatureRequest: batchSignatureRequest,
+    StsRequest: stsRequest,
+    ResolveUrlRequest: resolveUrlRequest,
+    PlayerInfoRequest: playerInfoRequest,
+    PrewarmRequest: prewarmRequest,
+    PlayerUploadRequest: playerUploadRequest,
+};
+
+// Keyed by pathname, or by 'METHOD pathname' for routes that share their pathname with other methods
+export const endpointSchemas: Record<string, ObjectSchema> = {
+    '/decrypt_signature': signatureRequest,
+    '/batch_decrypt_signature': batchSignatureRequest,
+    '/get_sts': stsRequest,
+    '/resolve_url': resolveUrlRequest,
+    '/player_info': playerInfoRequest,
+    '/admin/prewarm': prewarmRequest,
+    'PUT /admin/players': playerUploadRequest,
+};
@@ -0,0 +1,83 @@
+import { parse } from "https://deno.land/std@0.224.0/dotenv/mod.ts";
+import { loadApiKeys } from "./auth.ts";
+import { readPlayerCacheLimits } from "./playerCache.ts";
+import { resizePreprocessedCache } from "./preprocessedCache.ts";
+import { resizeSolverCache } from "./solverCache.ts";
+import { resizeStsCache } from "./stsCache.ts";
+import { resizeResultCache } from "./resultCache.ts";
+import { runEviction } from "./cacheEviction.ts";
+import { configureLogger, logger, parseLogLevel } from "./logger.ts";
+import type { ReloadSettingsResponse } from "./types.ts";
+
+// A .env style file read again on SIGHUP and POST /admin/reload. Its values for the settings below
+// replace the environment variables of the same name, everything else only applies after a restart.
+const SETTINGS_FILE = Deno.env.get("SETTINGS_FILE");
+
+const RELOADABLE_SETTINGS = new Set([
+    'API_TOKEN',
+    'ADMIN_API_TOKEN',
+    'API_KEYS',
+    'API_KEYS_FILE',
+    'LOG_LEVEL',
+    'PREPROCESSED_CACHE_SIZE',
+    'SOLVER_CACHE_SIZE',
+    'STS_CACHE_SIZE',
+    'RESULT_CACHE_SIZE',
+    'PLAYER_CACHE_MAX_AGE_DAYS',
+    'PLAYER_CACHE_MAX_FILES',
+    'PLAYER_CACHE_MAX_BYTES',
+]);
+
+// Caches keep their entries, they only drop what is over a lowered limit.
+// Settings missing from the file keep their current value, set them empty to go back to the default.
+export async function reloadSettings(): Promise<ReloadSettingsResponse> {
+    const values = SETTINGS_FILE ? parse(await Deno.readTextFile(SETTINGS_FILE)) : {};
+    const changed = Object.keys(values).filter(name => Deno.env.get(name) !== values[name]);
+    const reloaded = changed.filter(name => RELOADABLE_SETTINGS.has(name));
+    const restartRequired = changed.filter(name => !RELOADABLE_SETTINGS.has(name));
+
+    const previous = new Map(reloaded.map(name => [name, Deno.env.get(name)]));
+    for (const name of reloaded) {
+        Deno.env.set(name, values[name]);
+    }
+
+    // A broken key file fails the whole reload, so the running settings stay consistent
+    let keyCount: number;
+    try {
+        keyCount = await loadApiKeys();
+    } catch (e) {
+        for (const [name, value] of previous) {
+            if (value === undefined) {
+                Deno.env.delete(name);
+            } else {
+                Deno.env.set(name, value);
+            }
+        }
+        throw e;
+    }
+
+    configureLogger({ level: parseLogLevel(Deno.env.get("LOG_LEVEL")) });
+    resizePreprocessedCache();
+    resizeSolverCache();
+    resizeStsCache();
+    resizeResultCache();
+    readPlayerCacheLimits();
+    await runEviction();
+
+    if (restartRequired.length > 0) {
+        logger.warn(`Changed settings only apply after a restart`, { settings: restartRequired.join(',') });
+    }
+    logger.info(`Reloaded settings`, { changed: reloaded.join(',') || 'none', api_keys: keyCount });
+    return { reloaded, restart_required: restartRequired, api_keys: keyCount };
+}
+
+export function handleReloadSignal() {
+    // Windows has no SIGHUP, POST /admin/reload still works there
+    if (Deno.build.os === 'windows') {
+        return;
+    }
+    Deno.addSignalListener("SIGHUP", () => {
+        logger.info(`Received SIGHUP, reloading settings`);
+        reloadSettings().catch((e) => logger.error(`Failed to reload settings`, { error: e }));
+    });
+}
@@ -0,0 +1,61 @@
+import { sandboxPool, workerPool } from "./workerPool.ts";
+import { stopCacheEviction } from "./cacheEviction.ts";
+import { stopPrewarming } from "./prewarm.ts";
+import { closeWebSockets } from "./websocket.ts";
+import { isShuttingDown, markShuttingDown } from "./health.ts";
+import { logger } from "./logger.ts";
+
+// How long in-flight requests and queued worker tasks get to finish before they are cut off.
+// Keep it below the time your orchestrator waits before killing the process.
+const SHUTDOWN_TIMEOUT_SECONDS = parseInt(Deno.env.get("SHUTDOWN_TIMEOUT_SECONDS") || "", 10) || 25;
+
+// Stops accepting connections, lets running requests (WebSocket ones included) and the worker
+// queues finish within SHUTDOWN_TIMEOUT_SECONDS, then stops the workers and exits.
+async function shutdown(server: Deno.HttpServer, signal: Deno.Signal) {
+    if (isShuttingDown()) {
+        // Supervisors may send SIGTERM to the whole process group, only a second Ctrl+C skips the wait
+        if (signal === 'SIGINT') {
+            logger.warn(`Received ${signal} again, exiting without waiting`);
+            Deno.exit(1);
+        }
+        return;
+    }
+    markShuttingDown();
+    stopCacheEviction();
+    stopPrewarming();
+    logger.info(`Received ${signal}, shutting down`, { timeout_seconds: SHUTDOWN_TIMEOUT_SECONDS });
+
+    const drain = async () => {
+        // Deno closes upgraded sockets right away on shutdown, so their running requests are answered first.
+        // HTTP requests coming in meanwhile get SHUTTING_DOWN.
+        await closeWebSockets();
+        await server.shutdown();
+        // Left over once no request waits on them, e.g. prewarming
+        await Promise.all([workerPool.drain(), sandboxPool.drain()]);
+        return true;
+    };
+    let timer: ReturnType<typeof setTimeout>;
+    const deadline = new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), SHUTDOWN_TIMEOUT_SECONDS * 1000);
+    });
+    const drained = await Promise.race([drain(), deadline]).finally(() => clearTimeout(timer));
+
+    if (!drained) {
+        logger.warn(`Shutdown timed out, cutting off unfinished work`, {
+            main_pool: workerPool.stats(),
+            sandbox_pool: sandboxPool.stats(),
+        });
+    }
+    workerPool.terminate();
+    sandboxPool.terminate();
+    logger.info(`Shutdown complete`);
+    Deno.exit(drained ? 0 : 1);
+}
+
+export function handleShutdownSignals(server: Deno.HttpServer) {
+    // Windows only delivers SIGINT (and SIGBREAK)
+    const signals: Deno.Signal[] = Deno.build.os === 'windows' ? ['SIGINT'] : ['SIGTERM', 'SIGINT'];
+    for (const signal of signals) {
+        Deno.addSignalListener(signal, () => shutdown(server, signal));
+    }
+}
@@ -0,0 +1,26 @@
+import { singleFlightCoalesced } from "./metrics.ts";
+
+// Collapses concurrent calls for the same key onto one shared in-flight promise.
+export class SingleFlight<T> {
+    private inFlight = new Map<string, Promise<T>>();
+
+    constructor(private operation: string) {}
+
+    has(key: string): boolean {
+        return this.inFlight.has(key);
+    }
+
+    run(key: string, fn: () => Promise<T>): Promise<T> {
+        const existing = this.inFlight.get(key);
+        if (existing) {
+            singleFlightCoalesced.labels({ operation: this.operation }).inc();
+            return existing;
+        }
+
+        const promise = fn().finally(() => {
+            this.inFlight.delete(key);
+        });
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+}
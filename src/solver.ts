@@ -1,40 +1,72 @@
-import { execInPool } from "./workerPool.ts";
+import { execInPool, type ExecOptions } from "./workerPool.ts";
 import { getPlayerFilePath } from "./playerCache.ts";
-import { preprocessedCache } from "./preprocessedCache.ts";
+import { preprocessedCache, readPreprocessedFromDisk, writePreprocessedToDisk } from "./preprocessedCache.ts";
 import { solverCache } from "./solverCache.ts";
-import { getFromPrepared } from "../ejs/src/yt/solver/solvers.ts";
+import { createSolvers } from "./solverExecution.ts";
+import { assertNotQuarantined, verifySolvers } from "./solverVerification.ts";
 import type { Solvers } from "./types.ts";
-import { workerErrors } from "./metrics.ts";
-import { extractPlayerId } from "./utils.ts";
+import { timeStage, workerErrors } from "./metrics.ts";
+import { messageLabel, playerIdLabel } from "./metricLabels.ts";
+import { SingleFlight } from "./singleFlight.ts";
+import { HttpError, PlayerPreprocessError } from "./errors.ts";
 
-export async function getSolvers(player_url: string): Promise<Solvers | null> {
+// Concurrent requests for a player share one preprocess, solver creation and verification run,
+// which also writes solverCache once. Otherwise each would run its own prepare task on the workers.
+const solverLoads = new SingleFlight<Solvers | null>('load_solvers');
+// Prewarming gets its own flights, a live request joining one would wait in the low priority queue
+const lowPrioritySolverLoads = new SingleFlight<Solvers | null>('load_solvers');
+
+export async function getSolvers(player_url: string, options: ExecOptions = {}): Promise<Solvers | null> {
     const playerCacheKey = await getPlayerFilePath(player_url);
+    return await getSolversForFile(playerCacheKey, player_url, options);
+}
+
+// Also used by the CLI for player files outside the cache. player_url only labels metrics and logs
+export async function getSolversForFile(playerCacheKey: string, player_url: string, options: ExecOptions = {}): Promise<Solvers | null> {
+    assertNotQuarantined(playerCacheKey);
 
-    let solvers = solverCache.get(playerCacheKey);
+    const solvers = solverCache.get(playerCacheKey);
 
     if (solvers) {
         return solvers;
     }
 
+    // Prewarming still joins a live flight rather than loading the same player twice
+    const flights = options.lowPriority && !solverLoads.has(playerCacheKey) ? lowPrioritySolverLoads : solverLoads;
+    return await flights.run(playerCacheKey, () => loadSolvers(playerCacheKey, player_url, options));
+}
+
+async function loadSolvers(playerCacheKey: string, player_url: string, options: ExecOptions): Promise<Solvers | null> {
     let preprocessedPlayer = preprocessedCache.get(playerCacheKey);
     if (!preprocessedPlayer) {
-        const rawPlayer = await Deno.readTextFile(playerCacheKey);
+        preprocessedPlayer = await preprocessPlayerFile(player_url, playerCacheKey, options);
+    }
+
+    const created = await timeStage('get_from_prepared', () => createSolvers(playerCacheKey, preprocessedPlayer, options));
+    if (created) {
+        // Broken solvers throw here instead of being cached
+        await timeStage('verify_solvers', () => verifySolvers(playerCacheKey, player_url, created));
+        solverCache.set(playerCacheKey, created);
+        return created;
+    }
+
+    return null;
+}
+
+async function preprocessPlayerFile(player_url: string, playerCacheKey: string, options: ExecOptions): Promise<string> {
+    let preprocessedPlayer = await timeStage('disk_read', () => readPreprocessedFromDisk(playerCacheKey));
+    if (preprocessedPlayer === undefined) {
+        const rawPlayer = await timeStage('disk_read', () => Deno.readTextFile(playerCacheKey));
         try {
-            preprocessedPlayer = await execInPool(rawPlayer);
+            preprocessedPlayer = await timeStage('preprocess', () => execInPool(rawPlayer, options));
         } catch (e) {
-            const playerId = extractPlayerId(player_url);
             const message = e instanceof Error ? e.message : String(e);
-            workerErrors.labels({ player_id: playerId, message }).inc();
-            throw e;
+            workerErrors.labels({ player_id: playerIdLabel(player_url), message: messageLabel(message) }).inc();
+            // A full queue keeps its own status, anything else means this player could not be processed
+            throw e instanceof HttpError ? e : new PlayerPreprocessError(`Failed to preprocess player: ${message}`);
         }
-        preprocessedCache.set(playerCacheKey, preprocessedPlayer);
+        await writePreprocessedToDisk(playerCacheKey, preprocessedPlayer);
     }
-    
-    solvers = getFromPrepared(preprocessedPlayer);
-    if (solvers) {
-        solverCache.set(playerCacheKey, solvers);
-        return solvers;
-    }
-
-    return null;
+    preprocessedCache.set(playerCacheKey, preprocessedPlayer);
+    return preprocessedPlayer;
 }
\ No newline at end of file
@@ -1,7 +1,15 @@
 import { InstrumentedLRU } from "./instrumentedCache.ts";
 import type { Solvers } from "./types.ts";
 
+function readCacheSize(): number {
+    const cacheSizeEnv = Deno.env.get('SOLVER_CACHE_SIZE');
+    return cacheSizeEnv ? parseInt(cacheSizeEnv, 10) : 50;
+}
+
 // key = hash of the player url
-const cacheSizeEnv = Deno.env.get('SOLVER_CACHE_SIZE');
-const maxCacheSize = cacheSizeEnv ? parseInt(cacheSizeEnv, 10) : 50;
-export const solverCache = new InstrumentedLRU<Solvers>('solver', maxCacheSize);
\ No newline at end of file
+export const solverCache = new InstrumentedLRU<Solvers>('solver', readCacheSize());
+
+// Called after a settings reload
+export function resizeSolverCache() {
+    solverCache.resize(readCacheSize());
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { getFromPrepared } from "../ejs/src/yt/solver/solvers.ts";
+import { sandboxPool, workerPool, type ExecOptions, type WorkerPool } from "./workerPool.ts";
+import { solverCallDuration } from "./metrics.ts";
+import type { SolverName, Solvers } from "./types.ts";
+
+// main:    solvers run on the server thread, fastest but not isolated (the old behaviour)
+// pool:    solvers run in the shared worker pool next to preprocessing
+// sandbox: solvers run in dedicated workers that have no permissions at all
+export type SolverExecutionMode = 'main' | 'pool' | 'sandbox';
+
+const modeEnv = Deno.env.get("SOLVER_EXECUTION_MODE");
+export const SOLVER_EXECUTION_MODE: SolverExecutionMode = modeEnv === 'pool' || modeEnv === 'sandbox' ? modeEnv : 'main';
+
+// Only enforced in the worker modes, a solver call running longer than this gets its worker terminated
+const SOLVER_TIMEOUT_MS = parseInt(Deno.env.get("SOLVER_TIMEOUT_MS") || "", 10) || 1000;
+
+type SolveResult = { loaded: false } | { loaded: true; output: string };
+
+// Workers keep solvers by key. Every createSolvers call gets a fresh key so an evicted
+// and re-fetched player can never be answered from a worker's stale copy.
+let generation = 0;
+
+function timed(solver: SolverName, fn: (val: string) => Promise<string>): (val: string) => Promise<string> {
+    return async (val: string) => {
+        const start = performance.now();
+        try {
+            return await fn(val);
+        } finally {
+            solverCallDuration.labels({ mode: SOLVER_EXECUTION_MODE, solver }).observe((performance.now() - start) / 1000);
+        }
+    };
+}
+
+function remoteSolver(pool: WorkerPool, key: string, player: string, solver: SolverName): (val: string) => Promise<string> {
+    return async (input: string) => {
+        let result = await pool.exec<SolveResult>({ type: 'solve', key, solver, input }, { timeoutMs: SOLVER_TIMEOUT_MS });
+        if (!result.loaded) {
+            // This worker has not seen the player yet (or was respawned), send it along this time
+            result = await pool.exec<SolveResult>({ type: 'solve', key, solver, input, player }, { timeoutMs: SOLVER_TIMEOUT_MS });
+        }
+        if (!result.loaded) {
+            throw new Error(`Worker failed to load ${solver} solver`);
+        }
+        return result.output;
+    };
+}
+
+export async function createSolvers(playerCacheKey: string, preprocessedPlayer: string, options: ExecOptions = {}): Promise<Solvers | null> {
+    if (SOLVER_EXECUTION_MODE === 'main') {
+        const prepared = getFromPrepared(preprocessedPlayer);
+        if (!prepared) {
+            return null;
+        }
+        const { sig, n } = prepared;
+        return {
+            sig: sig ? timed('sig', (val) => Promise.resolve(sig(val))) : null,
+            n: n ? timed('n', (val) => Promise.resolve(n(val))) : null,
+        };
+    }
+
+    const pool = SOLVER_EXECUTION_MODE === 'sandbox' ? sandboxPool : workerPool;
+    const workerKey = `${playerCacheKey}#${++generation}`;
+    const available = await pool.exec<{ sig: boolean; n: boolean } | null>({ type: 'prepare', key: workerKey, player: preprocessedPlayer }, options);
+    if (!available) {
+        return null;
+    }
+    return {
+        sig: available.sig ? timed('sig', remoteSolver(pool, workerKey, preprocessedPlayer, 'sig')) : null,
+        n: available.n ? timed('n', remoteSolver(pool, workerKey, preprocessedPlayer, 'n')) : null,
+    };
+}
@@ -0,0 +1,223 @@
+import type { CacheEntryInfo } from "./instrumentedCache.ts";
+import { getKnownPlayerUrl, getPlayerCacheKeyFromPath } from "./playerCache.ts";
+import { preprocessedCache, readPreprocessedFromDisk } from "./preprocessedCache.ts";
+import { solverCache } from "./solverCache.ts";
+import { createSolvers } from "./solverExecution.ts";
+import { cacheSize, solverQuarantines } from "./metrics.ts";
+import { playerIdLabel } from "./metricLabels.ts";
+import { PlayerQuarantinedError } from "./errors.ts";
+import { logger } from "./logger.ts";
+import type { SelfTestResult, SolverCheckFailure, SolverName, Solvers } from "./types.ts";
+
+// Newly extracted solvers are run on synthetic inputs before they are cached. Players whose
+// solvers fail are quarantined: requests for them fail fast until SOLVER_QUARANTINE_SECONDS pass.
+const SOLVER_VERIFICATION = Deno.env.get("SOLVER_VERIFICATION") !== "false";
+const SOLVER_QUARANTINE_SECONDS = parseInt(Deno.env.get("SOLVER_QUARANTINE_SECONDS") || "", 10) || 600;
+const MAX_QUARANTINED_PLAYERS = 1000;
+
+interface QuarantineEntry {
+    failures: SolverCheckFailure[];
+    quarantinedAt: number;
+}
+
+// Checked on every request, so it is a plain Map rather than an InstrumentedLRU whose lookup
+// metrics would count every check. Offers the same has/list/delete/clear the admin API uses.
+class Quarantine {
+    private entries = new Map<string, QuarantineEntry>();
+
+    has(key: string): boolean {
+        return this.get(key) !== undefined;
+    }
+
+    get(key: string): QuarantineEntry | undefined {
+        const entry = this.entries.get(key);
+        if (entry && Date.now() - entry.quarantinedAt >= SOLVER_QUARANTINE_SECONDS * 1000) {
+            this.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    set(key: string, failures: SolverCheckFailure[]) {
+        // Re-inserted so the oldest entry is always first
+        this.entries.delete(key);
+        this.entries.set(key, { failures, quarantinedAt: Date.now() });
+        while (this.entries.size > MAX_QUARANTINED_PLAYERS) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+        this.updateMetrics();
+    }
+
+    delete(key: string): boolean {
+        const result = this.entries.delete(key);
+        this.updateMetrics();
+        return result;
+    }
+
+    clear() {
+        this.entries.clear();
+        this.updateMetrics();
+    }
+
+    // Oldest first, expired entries left out
+    list(): CacheEntryInfo<QuarantineEntry>[] {
+        const entries: CacheEntryInfo<QuarantineEntry>[] = [];
+        for (const key of Array.from(this.entries.keys())) {
+            const value = this.get(key);
+            if (value) {
+                entries.push({ key, value, lastAccess: value.quarantinedAt });
+            }
+        }
+        return entries;
+    }
+
+    private updateMetrics() {
+        cacheSize.labels({ cache_name: 'quarantine' }).set(this.entries.size);
+    }
+}
+
+// key = player file path, like the other memory tiers
+export const quarantinedPlayers = new Quarantine();
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Same value for the same seed, so every run checks the same inputs
+function syntheticValue(length: number, seed: number): string {
+    let state = seed;
+    let value = '';
+    for (let i = 0; i < length; i++) {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        value += ALPHABET[(state >> 16) % ALPHABET.length];
+    }
+    return value;
+}
+
+// Shaped like real values: signatures are around 100 characters, n values around 16
+const syntheticInputs: Record<SolverName, string[]> = {
+    sig: [syntheticValue(104, 1), syntheticValue(108, 2)],
+    n: [syntheticValue(16, 3), syntheticValue(19, 4)],
+};
+
+async function checkSolver(solver: SolverName, fn: (val: string) => Promise<string>): Promise<SolverCheckFailure | null> {
+    const failure = (reason: SolverCheckFailure['reason'], message: string): SolverCheckFailure => ({ solver, reason, message: `${solver} ${message}` });
+
+    for (const input of syntheticInputs[solver]) {
+        let output: string;
+        let repeated: string;
+        try {
+            output = await fn(input);
+            repeated = await fn(input);
+        } catch (e) {
+            return failure('threw', `threw: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        if (typeof output !== 'string' || output === '') {
+            return failure('empty', 'returned an empty result');
+        }
+        // The n function catches its own errors and returns them with this prefix
+        if (output.startsWith('enhanced_except_')) {
+            return failure('threw', `threw internally: ${output.slice(0, 64)}`);
+        }
+        if (output === input) {
+            return failure('unchanged', 'returned its input unchanged');
+        }
+        if (output !== repeated) {
+            return failure('nondeterministic', 'returned different results for the same input');
+        }
+        if (output.length < input.length / 2 || output.length > input.length * 2) {
+            return failure('implausible_length', `turned ${input.length} characters into ${output.length}`);
+        }
+    }
+    return null;
+}
+
+export async function checkSolvers(solvers: Solvers): Promise<SolverCheckFailure[]> {
+    const failures: SolverCheckFailure[] = [];
+    for (const solver of ['sig', 'n'] as const) {
+        const fn = solvers[solver];
+        const result = fn ? await checkSolver(solver, fn) : null;
+        if (result) {
+            failures.push(result);
+        }
+    }
+    return failures;
+}
+
+function quarantineError(failures: SolverCheckFailure[]): PlayerQuarantinedError {
+    return new PlayerQuarantinedError(`Player failed solver verification: ${failures.map((f) => f.message).join(', ')}`);
+}
+
+function quarantine(playerCacheKey: string, playerUrl: string | undefined, failures: SolverCheckFailure[]) {
+    quarantinedPlayers.set(playerCacheKey, failures);
+    solverCache.delete(playerCacheKey);
+    for (const { solver, reason } of failures) {
+        solverQuarantines.labels({ player_id: playerUrl ? playerIdLabel(playerUrl) : 'unknown', solver, reason }).inc();
+    }
+    logger.warn(`Quarantined player after failed solver verification`, { file: playerCacheKey, failures: failures.map((f) => f.message).join(', ') });
+}
+
+export function assertNotQuarantined(playerCacheKey: string) {
+    if (quarantinedPlayers.has(playerCacheKey)) {
+        throw quarantineError(quarantinedPlayers.get(playerCacheKey)!.failures);
+    }
+}
+
+// Throws PlayerQuarantinedError instead of returning when the solvers fail
+export async function verifySolvers(playerCacheKey: string, playerUrl: string, solvers: Solvers): Promise<void> {
+    if (!SOLVER_VERIFICATION) {
+        return;
+    }
+    const failures = await checkSolvers(solvers);
+    if (failures.length > 0) {
+        quarantine(playerCacheKey, playerUrl, failures);
+        throw quarantineError(failures);
+    }
+}
+
+// Quarantined players have no cached solvers, so they are rebuilt from the preprocessed player
+async function rebuildSolvers(playerCacheKey: string): Promise<Solvers | null> {
+    const preprocessedPlayer = preprocessedCache.get(playerCacheKey) ?? await readPreprocessedFromDisk(playerCacheKey);
+    return preprocessedPlayer ? await createSolvers(playerCacheKey, preprocessedPlayer) : null;
+}
+
+// Re-checks every player with solvers in memory and every quarantined one. Players that fail are
+// quarantined, quarantined players that pass now are released and their solvers cached again.
+export async function runSelfTest(): Promise<SelfTestResult[]> {
+    const cachedSolvers = new Map(solverCache.list().map(({ key, value }) => [key, value]));
+    const playerCacheKeys = new Set([...cachedSolvers.keys(), ...quarantinedPlayers.list().map(({ key }) => key)]);
+    const results: SelfTestResult[] = [];
+
+    for (const playerCacheKey of playerCacheKeys) {
+        const cacheKey = getPlayerCacheKeyFromPath(playerCacheKey);
+        const playerUrl = getKnownPlayerUrl(cacheKey);
+        const quarantined = quarantinedPlayers.get(playerCacheKey);
+
+        let solvers = cachedSolvers.get(playerCacheKey) ?? null;
+        if (quarantined) {
+            try {
+                solvers = await rebuildSolvers(playerCacheKey);
+            } catch (e) {
+                logger.warn(`Could not rebuild solvers of quarantined player`, { file: playerCacheKey, error: e });
+                solvers = null;
+            }
+            if (!solvers) {
+                results.push({ cache_key: cacheKey, player_url: playerUrl ?? null, passed: false, failures: quarantined.failures });
+                continue;
+            }
+        }
+        // Quarantine expired since the list was taken
+        if (!solvers) {
+            continue;
+        }
+
+        const failures = await checkSolvers(solvers);
+        if (failures.length > 0) {
+            quarantine(playerCacheKey, playerUrl, failures);
+        } else if (quarantined) {
+            quarantinedPlayers.delete(playerCacheKey);
+            solverCache.set(playerCacheKey, solvers);
+            logger.info(`Released player from quarantine`, { file: playerCacheKey });
+        }
+        results.push({ cache_key: cacheKey, player_url: playerUrl ?? null, passed: failures.length === 0, failures });
+    }
+    return results;
+}
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { join, relative } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { cacheLookups } from "./metrics.ts";
+import { logger } from "./logger.ts";
+import { writeTextFileAtomic } from "./utils.ts";
+
+// fs keeps everything in the local cache directories. peer also asks PEER_URLS for players
+// this instance does not have yet, before fetching them from YouTube and preprocessing them again.
+const PLAYER_STORAGE = Deno.env.get("PLAYER_STORAGE") === "peer" ? "peer" : "fs";
+const PEER_URLS = (Deno.env.get("PEER_URLS") || "").split(",").map((url) => url.trim().replace(/\/+$/, "")).filter(Boolean);
+// Shared secret for the /internal/storage route, sent and checked by every instance
+const PEER_TOKEN = Deno.env.get("PEER_TOKEN");
+const PEER_TIMEOUT_MS = parseInt(Deno.env.get("PEER_TIMEOUT_MS") || "", 10) || 2000;
+
+export interface StoredFileInfo {
+    size: number;
+    // Epoch millis. Falls back to the modification time on filesystems without atime
+    lastAccessed: number;
+}
+
+// Cache files are addressed by their full path in the local cache directories.
+export interface PlayerStorage {
+    // null when the file does not exist
+    stat(path: string): Promise<StoredFileInfo | null>;
+    // Marks the file as recently used, for eviction
+    touch(path: string): Promise<void>;
+    read(path: string): Promise<string | null>;
+    write(path: string, content: string): Promise<void>;
+    // Names of the files in dir
+    list(dir: string): Promise<string[]>;
+    // false when the file did not exist
+    delete(path: string): Promise<boolean>;
+    // Tries to get a missing file from somewhere else and store it locally. true when it now exists
+    pull(path: string): Promise<boolean>;
+}
+
+export class FsPlayerStorage implements PlayerStorage {
+    async stat(path: string): Promise<StoredFileInfo | null> {
+        try {
+            const stat = await Deno.stat(path);
+            return {
+                size: stat.size,
+                lastAccessed: stat.atime?.getTime() ?? stat.mtime?.getTime() ?? stat.birthtime?.getTime() ?? Date.now(),
+            };
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async touch(path: string): Promise<void> {
+        // Only the access time changes, the modification time still says when the file was fetched
+        const stat = await Deno.stat(path);
+        await Deno.utime(path, new Date(), stat.mtime ?? new Date());
+    }
+
+    async read(path: string): Promise<string | null> {
+        try {
+            return await Deno.readTextFile(path);
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async write(path: string, content: string): Promise<void> {
+        await writeTextFileAtomic(path, content);
+    }
+
+    async list(dir: string): Promise<string[]> {
+        const names: string[] = [];
+        for await (const dirEntry of Deno.readDir(dir)) {
+            if (dirEntry.isFile) {
+                names.push(dirEntry.name);
+            }
+        }
+        return names;
+    }
+
+    async delete(path: string): Promise<boolean> {
+        try {
+            await Deno.remove(path);
+            return true;
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    pull(_path: string): Promise<boolean> {
+        return Promise.resolve(false);
+    }
+}
+
+// Local files plus the caches of sibling instances. Peers only answer from their own disk,
+// so a player nobody has yet is fetched from YouTube once per instance that misses at the same time.
+export class PeerPlayerStorage extends FsPlayerStorage {
+    constructor(private root: string, private peers: string[]) {
+        super();
+    }
+
+    override async pull(path: string): Promise<boolean> {
+        const filePath = relative(this.root, path);
+        const controller = new AbortController();
+        try {
+            // Every peer is asked at once, the first one that has the file wins
+            const content = await Promise.any(this.peers.map((peer) => this.fetchFromPeer(peer, filePath, controller.signal)));
+            controller.abort();
+            await this.write(path, content);
+            cacheLookups.labels({ cache_name: 'peer', result: 'hit' }).inc();
+            logger.info(`Got cache file from a peer`, { file: filePath });
+            return true;
+        } catch {
+            cacheLookups.labels({ cache_name: 'peer', result: 'miss' }).inc();
+            return false;
+        }
+    }
+
+    private async fetchFromPeer(peer: string, filePath: string, signal: AbortSignal): Promise<string> {
+        const url = `${peer}/internal/storage/${filePath.split('/').map(encodeURIComponent).join('/')}`;
+        const response = await fetch(url, {
+            headers: { Authorization: PEER_TOKEN ?? '' },
+            signal: AbortSignal.any([signal, AbortSignal.timeout(PEER_TIMEOUT_MS)]),
+        });
+        if (!response.ok) {
+            await response.body?.cancel();
+            if (response.status !== 404) {
+                logger.warn(`Peer storage request failed`, { peer, file: filePath, status: response.status });
+            }
+            throw new Error(`${peer} returned ${response.status}`);
+        }
+        return await response.text();
+    }
+}
+
+export function createPlayerStorage(root: string): PlayerStorage {
+    if (PLAYER_STORAGE !== 'peer') {
+        return new FsPlayerStorage();
+    }
+    if (PEER_URLS.length === 0 || !PEER_TOKEN) {
+        throw new Error("PLAYER_STORAGE=peer needs PEER_URLS and PEER_TOKEN");
+    }
+    logger.info(`Using peer player storage`, { peers: PEER_URLS.join(',') });
+    return new PeerPlayerStorage(root, PEER_URLS);
+}
+
+// The files a peer may ask for, relative to the storage root
+export function resolvePeerFilePath(root: string, filePath: string): string | null {
+    const [dir, name, ...rest] = filePath.split('/');
+    if (rest.length > 0 || !['player_cache', 'preprocessed_cache'].includes(dir) || !/^[\w-]+(\.[\w-]+)*\.js$/.test(name ?? '')) {
+        return null;
+    }
+    return join(root, dir, name);
+}
\ No newline at end of file
@@ -1,6 +1,14 @@
 import { InstrumentedLRU } from "./instrumentedCache.ts";
 
+function readCacheSize(): number {
+    const cacheSizeEnv = Deno.env.get('STS_CACHE_SIZE');
+    return cacheSizeEnv ? parseInt(cacheSizeEnv, 10) : 150;
+}
+
 // key = hash of player URL
-const cacheSizeEnv = Deno.env.get('STS_CACHE_SIZE');
-const maxCacheSize = cacheSizeEnv ? parseInt(cacheSizeEnv, 10) : 150;
-export const stsCache = new InstrumentedLRU<string>('sts', maxCacheSize);
\ No newline at end of file
+export const stsCache = new InstrumentedLRU<string>('sts', readCacheSize());
+
+// Called after a settings reload
+export function resizeStsCache() {
+    stsCache.resize(readCacheSize());
+}
\ No newline at end of file
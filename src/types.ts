@@ -1,10 +1,21 @@
 import type { Input as MainInput, Output as MainOutput } from "../ejs/src/yt/solver/main.ts";
+import type { ErrorCode } from "./errors.ts";
 
-export interface Solvers {
+export type SolverName = 'sig' | 'n';
+
+// What getFromPrepared hands back, plain functions bound to the player script.
+export interface PreparedSolvers {
     n: ((val: string) => string) | null;
     sig: ((val: string) => string) | null;
 }
 
+// Solvers as used by the handlers. Depending on SOLVER_EXECUTION_MODE these run
+// on the main thread or are forwarded to a worker, so they are always async.
+export interface Solvers {
+    n: ((val: string) => Promise<string>) | null;
+    sig: ((val: string) => Promise<string>) | null;
+}
+
 export interface SignatureRequest {
     encrypted_signature: string;
     n_param: string;
@@ -16,6 +27,23 @@ export interface SignatureResponse {
     decrypted_n_sig: string;
 }
 
+export interface BatchSignatureRequest {
+    items: SignatureRequest[];
+}
+
+export interface BatchSignatureItemResult {
+    success: boolean;
+    decrypted_signature?: string;
+    decrypted_n_sig?: string;
+    error?: string;
+    code?: ErrorCode;
+    retryable?: boolean;
+}
+
+export interface BatchSignatureResponse {
+    results: BatchSignatureItemResult[];
+}
+
 export interface StsRequest {
     player_url: string;
 }
@@ -24,10 +52,15 @@ export interface StsResponse {
     sts: string;
 }
 
+// Exactly one of stream_url, signature_cipher or streams is given
 export interface ResolveUrlRequest {
-    stream_url: string;
+    stream_url?: string;
+    // A raw signatureCipher / cipher blob, holding url, s and sp
+    signature_cipher?: string;
+    // Stream urls and signatureCipher blobs, resolved together
+    streams?: string[];
     player_url: string;
-    encrypted_signature: string;
+    encrypted_signature?: string;
     signature_key?: string;
     n_param?: string;
 }
@@ -36,21 +69,181 @@ export interface ResolveUrlResponse {
     resolved_url: string;
 }
 
+export interface ResolveUrlItemResult {
+    success: boolean;
+    resolved_url?: string;
+    error?: string;
+    code?: ErrorCode;
+    retryable?: boolean;
+}
+
+export interface ResolveUrlBatchResponse {
+    results: ResolveUrlItemResult[];
+}
+
+// One reply per /ws request frame. body is what the HTTP route would have returned
+export interface WebSocketReply {
+    id: string | number | null;
+    request_id: string;
+    status: number;
+    body: unknown;
+}
+
+export interface PlayerInfoRequest {
+    player_url: string;
+    test_signature?: string;
+    test_n?: string;
+}
+
+export interface SolverTestResult {
+    input: string;
+    output?: string;
+    error?: string;
+}
+
+export interface PlayerInfoResponse {
+    player_url: string;
+    player_id: string;
+    cache_key: string;
+    sts: string | null;
+    solvers: { sig: boolean; n: boolean };
+    script_size_bytes: number;
+    fetched_at: string | null;
+    // Tiers that held the player before this request
+    cache_tiers: string[];
+    test_results?: { sig?: SolverTestResult; n?: SolverTestResult };
+}
+
+export interface PrewarmRequest {
+    player_urls: string[];
+}
+
+export interface PrewarmResult {
+    player_url: string;
+    success: boolean;
+    error?: string;
+    duration_ms: number;
+}
+
+export interface PrewarmResponse {
+    results: PrewarmResult[];
+}
+
+export interface ApiKey {
+    name: string;
+    key: string;
+    enabled?: boolean;
+    // Endpoint paths this key may call, entries ending in * match by prefix. Defaults to every non-admin endpoint.
+    endpoints?: string[];
+    // ISO 8601 timestamp after which the key is rejected
+    expires_at?: string;
+    // Requests per second for this key, instead of RATE_LIMIT_PER_KEY. 0 means no limit
+    rate_limit?: number;
+}
+
+export type SolverCheckReason = 'threw' | 'empty' | 'unchanged' | 'nondeterministic' | 'implausible_length';
+
+export interface SolverCheckFailure {
+    solver: SolverName;
+    reason: SolverCheckReason;
+    message: string;
+}
+
+export interface SelfTestResult {
+    cache_key: string;
+    player_url: string | null;
+    passed: boolean;
+    failures: SolverCheckFailure[];
+}
+
+export interface SelfTestResponse {
+    checked: number;
+    failed: number;
+    results: SelfTestResult[];
+}
+
+export interface CachedPlayer {
+    cache_key: string;
+    player_id: string | null;
+    // Only known for players requested since startup
+    player_url: string | null;
+    // Size of the raw player script on disk
+    size_bytes: number | null;
+    last_access: string | null;
+    tiers: string[];
+}
+
+export interface CachedPlayersResponse {
+    players: CachedPlayer[];
+}
+
+export interface ReloadSettingsResponse {
+    // Settings whose new value is now in use
+    reloaded: string[];
+    // Settings that changed in the file but are only read at startup
+    restart_required: string[];
+    api_keys: number;
+}
+
+export interface PlayerUploadRequest {
+    player_url: string;
+    script: string;
+}
+
+// unchanged when the cache already held the same script
+export type PlayerImportResult = 'created' | 'replaced' | 'unchanged';
+
+export interface PlayerUploadResponse {
+    cache_key: string;
+    player_url: string;
+    result: PlayerImportResult;
+}
+
+export interface WorkerPoolStats {
+    workers: number;
+    busy: number;
+    queued: number;
+    queued_low_priority: number;
+}
+
+export interface HealthReport {
+    status: 'ok' | 'unavailable';
+    checks?: Record<string, boolean>;
+    workers: Record<string, WorkerPoolStats>;
+    caches: Record<string, number>;
+}
+
 export interface WorkerWithStatus extends Worker {
     isIdle?: boolean;
+    currentTask?: Task;
+    taskTimer?: ReturnType<typeof setTimeout>;
 }
 
+export type WorkerRequest =
+    | { type: 'ping' }
+    | { type: 'preprocess'; data: string }
+    | { type: 'prepare'; key: string; player: string }
+    | { type: 'solve'; key: string; solver: SolverName; input: string; player?: string };
+
 export interface Task {
-    data: string;
-    resolve: (output: string) => void;
+    message: WorkerRequest;
+    timeoutMs: number;
+    // Request that queued the task, workers answer outside of its async scope
+    requestId?: string;
+    resolve: (output: unknown) => void;
     reject: (error: any) => void;
 }
 
-export type ApiRequest = SignatureRequest | StsRequest | ResolveUrlRequest;
+export type ApiRequest = SignatureRequest | BatchSignatureRequest | StsRequest | ResolveUrlRequest | PlayerInfoRequest | PrewarmRequest | PlayerUploadRequest;
 
 // Parsing into this context helps avoid multi copies of requests
 // since request body can only be read once. 
 export interface RequestContext {
     req: Request;
+    // Empty for HTTP requests until withRequestBody has read it
     body: ApiRequest;
+    // Name of the API key the request authenticated with, 'anonymous' when auth is off
+    apiKeyName?: string;
+    // Client address, taken from X-Forwarded-For when the request came through a trusted proxy
+    clientIp?: string;
 }
\ No newline at end of file
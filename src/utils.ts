@@ -1,4 +1,6 @@
-const ALLOWED_HOSTNAMES = ["youtube.com", "www.youtube.com", "m.youtube.com"];
+// Hosts player_url may point at. PLAYER_BASE_URL decides where players are actually fetched from
+const ALLOWED_HOSTNAMES = Deno.env.get("ALLOWED_HOSTNAMES")?.split(',').map(h => h.trim()).filter(Boolean)
+    ?? ["youtube.com", "www.youtube.com", "m.youtube.com"];
 
 export function validateAndNormalizePlayerUrl(playerUrl: string): string {
     // Handle relative paths
@@ -38,4 +40,50 @@ export function extractPlayerId(playerUrl: string): string {
         }
     }
     return 'unknown';
+}
+
+const BYTE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+// Parses sizes like "4096", "64MB" or "1.5GB" (1KB = 1024 bytes). Returns undefined for anything else
+export function parseByteSize(value: string): number | undefined {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]?b)?$/i);
+    if (!match) {
+        return undefined;
+    }
+    return Math.floor(parseFloat(match[1]) * BYTE_UNITS[(match[2] ?? 'b').toLowerCase()]);
+}
+
+// Reads a whole stream, or returns null as soon as it goes over maxBytes
+export async function readStreamLimited(stream: ReadableStream<Uint8Array> | null, maxBytes: number): Promise<Uint8Array | null> {
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    if (stream) {
+        // Leaving the loop early cancels the stream
+        for await (const chunk of stream) {
+            received += chunk.byteLength;
+            if (received > maxBytes) {
+                return null;
+            }
+            chunks.push(chunk);
+        }
+    }
+    const result = new Uint8Array(received);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return result;
+}
+
+// Write to a temp file and rename so concurrent readers never see a partial file
+export async function writeTextFileAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+    try {
+        await Deno.writeTextFile(tempPath, content);
+        await Deno.rename(tempPath, filePath);
+    } catch (e) {
+        await Deno.remove(tempPath).catch(() => {});
+        throw e;
+    }
 }
\ No newline at end of file
@@ -1,69 +1,172 @@
-import type { ApiRequest, RequestContext } from "./types.ts";
-import { validateAndNormalizePlayerUrl } from "./utils.ts";
+import type { ApiRequest, PlayerUploadRequest, RequestContext, SignatureRequest } from "./types.ts";
+import { parseByteSize, readStreamLimited, validateAndNormalizePlayerUrl } from "./utils.ts";
+import { InvalidRequestError, PayloadTooLargeError } from "./errors.ts";
+import { endpointSchemas, requestSchemas, type Schema } from "./schemas.ts";
 
 type Next = (ctx: RequestContext) => Promise<Response>;
-type ValidationSchema = {
-    [key: string]: (value: any) => boolean;
-};
 
-const signatureRequestSchema: ValidationSchema = {
-    player_url: (val) => typeof val === 'string',
-};
+// Reject fields the schema does not know about, instead of ignoring them
+const STRICT_VALIDATION = Deno.env.get('STRICT_VALIDATION') === 'true';
+export const MAX_BODY_BYTES = parseByteSize(Deno.env.get('MAX_BODY_BYTES') || '') || 1024 * 1024;
+// Player scripts are a few MB, so uploads get their own limit
+const MAX_PLAYER_UPLOAD_BYTES = parseByteSize(Deno.env.get('MAX_PLAYER_UPLOAD_BYTES') || '') || 20 * 1024 * 1024;
 
-const stsRequestSchema: ValidationSchema = {
-    player_url: (val) => typeof val === 'string',
-};
+// Returns one message per offending field, with its path in the body
+function validateSchema(value: unknown, schema: Schema, path: string): string[] {
+    const name = path || 'body';
+    switch (schema.type) {
+        case 'string': {
+            if (typeof value !== 'string') {
+                return [`'${name}' must be a string`];
+            }
+            if (schema.minLength !== undefined && value.length < schema.minLength) {
+                return [schema.minLength === 1 ? `'${name}' must not be empty` : `'${name}' must be at least ${schema.minLength} characters`];
+            }
+            if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+                return [`'${name}' must be at most ${schema.maxLength} characters`];
+            }
+            if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+                return [`'${name}' contains invalid characters`];
+            }
+            return [];
+        }
+        case 'array': {
+            if (!Array.isArray(value)) {
+                return [`'${name}' must be an array`];
+            }
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                return [`'${name}' must have at least ${schema.minItems} items`];
+            }
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+                return [`'${name}' must have at most ${schema.maxItems} items`];
+            }
+            if (schema['x-validate-items-separately']) {
+                return [];
+            }
+            return value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`));
+        }
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`'${name}' must be an object`];
+            }
+            const errors: string[] = [];
+            const prefix = path ? `${path}.` : '';
+            for (const [key, propertySchema] of Object.entries(schema.properties)) {
+                if (!Object.hasOwn(value, key)) {
+                    if (schema.required?.includes(key)) {
+                        errors.push(`'${prefix}${key}' is required`);
+                    }
+                    continue;
+                }
+                errors.push(...validateSchema((value as Record<string, unknown>)[key], propertySchema, `${prefix}${key}`));
+            }
+            if (STRICT_VALIDATION) {
+                for (const key of Object.keys(value)) {
+                    if (!Object.hasOwn(schema.properties, key)) {
+                        errors.push(`'${prefix}${key}' is not allowed`);
+                    }
+                }
+            }
+            return errors;
+        }
+    }
+}
+
+// Reads and parses the JSON body, refusing anything over the route's limit before it is buffered
+async function parseRequestBody(req: Request): Promise<ApiRequest> {
+    const { pathname } = new URL(req.url);
+    const maxBytes = req.method === 'PUT' && pathname === '/admin/players' ? MAX_PLAYER_UPLOAD_BYTES : MAX_BODY_BYTES;
+    if (parseInt(req.headers.get('content-length') || '', 10) > maxBytes) {
+        throw new PayloadTooLargeError(maxBytes);
+    }
+    const raw = await readStreamLimited(req.body, maxBytes);
+    if (!raw) {
+        throw new PayloadTooLargeError(maxBytes);
+    }
 
-const resolveUrlRequestSchema: ValidationSchema = {
-    player_url: (val) => typeof val === 'string',
-    stream_url: (val) => typeof val === 'string',
-};
+    const text = new TextDecoder().decode(raw);
+    // Some admin endpoints take no body at all
+    if (text.trim() === '') {
+        return {} as ApiRequest;
+    }
+    return parseJsonObject(text) as ApiRequest;
+}
 
-function validateObject(obj: any, schema: ValidationSchema): { isValid: boolean, errors: string[] } {
-    const errors: string[] = [];
-    for (const key in schema) {
-        if (!obj.hasOwnProperty(key) || !schema[key](obj[key])) {
-            errors.push(`'${key}' is missing or invalid`);
-        }
+// Also used for WebSocket frames, which carry the same bodies
+export function parseJsonObject(text: string): object {
+    let body: unknown;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        throw new InvalidRequestError('Invalid JSON body');
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new InvalidRequestError('Request body must be a JSON object');
+    }
+    return body;
+}
+
+// Batch items are validated one by one by the batch handler so a bad item only fails itself.
+export function validateSignatureItem(item: unknown): SignatureRequest {
+    const errors = validateSchema(item, requestSchemas.SignatureRequest, '');
+    if (errors.length > 0) {
+        throw new InvalidRequestError(`Invalid batch item: ${errors.join(', ')}`);
+    }
+    const signatureItem = item as SignatureRequest;
+    try {
+        return { ...signatureItem, player_url: validateAndNormalizePlayerUrl(signatureItem.player_url) };
+    } catch (e) {
+        throw new InvalidRequestError((e as Error).message, 'INVALID_PLAYER_URL');
     }
-    return { isValid: errors.length === 0, errors };
+}
+
+// Player files in PLAYER_IMPORT_DIR hold the same body as PUT /admin/players
+export function validatePlayerUpload(body: unknown): PlayerUploadRequest {
+    const errors = validateSchema(body, requestSchemas.PlayerUploadRequest, '');
+    if (errors.length > 0) {
+        throw new InvalidRequestError(`Invalid player upload: ${errors.join(', ')}`);
+    }
+    const upload = body as PlayerUploadRequest;
+    try {
+        return { ...upload, player_url: validateAndNormalizePlayerUrl(upload.player_url) };
+    } catch (e) {
+        throw new InvalidRequestError((e as Error).message, 'INVALID_PLAYER_URL');
+    }
+}
+
+// Fills ctx.body for HTTP requests. Comes after the rate limit so a rejected request is never read
+export function withRequestBody(handler: Next): Next {
+    return async (ctx: RequestContext) => {
+        ctx.body = await parseRequestBody(ctx.req);
+        return handler(ctx);
+    };
 }
 
 export function withValidation(handler: Next): Next {
     return async (ctx: RequestContext) => {
         const { pathname } = new URL(ctx.req.url);
 
-        let schema: ValidationSchema;
-        if (pathname === '/decrypt_signature') {
-            schema = signatureRequestSchema;
-        } else if (pathname === '/get_sts') {
-            schema = stsRequestSchema;
-        } else if (pathname === '/resolve_url') {
-            schema = resolveUrlRequestSchema;
-        } else {
+        const schema = endpointSchemas[`${ctx.req.method} ${pathname}`] ?? endpointSchemas[pathname];
+        if (!schema) {
             return handler(ctx);
         }
-        
-        const body = ctx.body as ApiRequest;
 
-        const { isValid, errors } = validateObject(body, schema);
+        const errors = validateSchema(ctx.body, schema, '');
+        if (errors.length > 0) {
+            throw new InvalidRequestError(`Invalid request body: ${errors.join(', ')}`);
+        }
 
-        if (!isValid) {
-            return new Response(JSON.stringify({ error: `Invalid request body: ${errors.join(', ')}` }), {
-                status: 400,
-                headers: { "Content-Type": "application/json" },
-            });
+        if (!('player_url' in schema.properties)) {
+            return handler(ctx);
         }
-        
+
         try {
+            const body = ctx.body as SignatureRequest;
             const normalizedUrl = validateAndNormalizePlayerUrl(body.player_url);
             // mutate the context with the normalized URL
-            ctx.body.player_url = normalizedUrl;
+            body.player_url = normalizedUrl;
         } catch (e) {
-            return new Response(JSON.stringify({ error: (e as Error).message }), {
-                status: 400,
-                headers: { "Content-Type": "application/json" },
-            });
+            throw new InvalidRequestError((e as Error).message, 'INVALID_PLAYER_URL');
         }
 
         return handler(ctx);
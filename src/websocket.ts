@@ -0,0 +1,136 @@
+import { AuthError, errorBody, InvalidRequestError, PayloadTooLargeError, RateLimitError, ShuttingDownError, toHttpError } from "./errors.ts";
+import { isKeyAllowed } from "./auth.ts";
+import { isShuttingDown } from "./health.ts";
+import { logger, resolveRequestId, runWithRequestId } from "./logger.ts";
+import { MAX_BODY_BYTES, parseJsonObject } from "./validation.ts";
+import type { ApiRequest, RequestContext, WebSocketReply } from "./types.ts";
+
+// Requests a single connection may have running at once, further frames are answered with RATE_LIMITED
+const WS_MAX_IN_FLIGHT = parseInt(Deno.env.get("WS_MAX_IN_FLIGHT") || "", 10) || 64;
+
+// Frame ops and the HTTP routes they run through
+const operations: Record<string, string> = {
+    decrypt: '/decrypt_signature',
+    sts: '/get_sts',
+    resolve: '/resolve_url',
+};
+
+export interface WebSocketSession {
+    apiKeyName: string;
+    clientIp: string;
+}
+
+// Open sockets and whether they still have requests running
+const openSockets = new Map<WebSocket, { inFlight: number }>();
+
+function closeForShutdown(socket: WebSocket) {
+    // A socket still being upgraded can only be closed once it is open
+    if (socket.readyState === WebSocket.CONNECTING) {
+        socket.addEventListener('open', () => closeForShutdown(socket));
+        return;
+    }
+    socket.close(1001, 'Server is shutting down');
+}
+
+// Runs a request through the same middleware and handler as the HTTP route for pathname
+type Dispatch = (pathname: string, ctx: RequestContext) => Promise<Response>;
+
+// The client authenticated with the upgrade request. After that every text frame is one request:
+// {"id": ..., "op": "decrypt" | "sts" | "resolve", "body": {...}}, answered with {"id", "status", "body"}.
+// Requests run concurrently, so replies come back in the order they finish.
+export function acceptWebSocket(req: Request, session: WebSocketSession, dispatch: Dispatch): Response {
+    // The upgraded request can not be read anymore, but the handlers and metrics need its client headers
+    const headers = new Headers(req.headers);
+    const { socket, response } = Deno.upgradeWebSocket(req);
+    const state = { inFlight: 0 };
+    openSockets.set(socket, state);
+
+    const send = (reply: WebSocketReply) => {
+        // The client may have gone away while the request was solving
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(reply));
+        }
+    };
+
+    socket.onmessage = (event) => {
+        const requestId = resolveRequestId(null);
+        runWithRequestId(requestId, async () => {
+            let id: string | number | null = null;
+            try {
+                if (typeof event.data !== 'string') {
+                    throw new InvalidRequestError('Frames must be JSON text');
+                }
+                if (event.data.length > MAX_BODY_BYTES) {
+                    throw new PayloadTooLargeError(MAX_BODY_BYTES);
+                }
+                const frame = parseJsonObject(event.data) as Record<string, unknown>;
+                if (typeof frame.id === 'string' || typeof frame.id === 'number') {
+                    id = frame.id;
+                } else {
+                    throw new InvalidRequestError("'id' must be a string or number");
+                }
+                const pathname = typeof frame.op === 'string' ? operations[frame.op] : undefined;
+                if (!pathname) {
+                    throw new InvalidRequestError(`'op' must be one of: ${Object.keys(operations).join(', ')}`);
+                }
+                if (typeof frame.body !== 'object' || frame.body === null || Array.isArray(frame.body)) {
+                    throw new InvalidRequestError("'body' must be an object");
+                }
+                if (isShuttingDown()) {
+                    throw new ShuttingDownError();
+                }
+                if (!isKeyAllowed(session.apiKeyName, pathname)) {
+                    throw new AuthError(`API key is not allowed to access ${pathname}`, 403);
+                }
+                if (state.inFlight >= WS_MAX_IN_FLIGHT) {
+                    throw new RateLimitError(1);
+                }
+
+                state.inFlight++;
+                try {
+                    const ctx: RequestContext = {
+                        req: new Request(new URL(pathname, req.url), { method: 'POST', headers }),
+                        body: frame.body as ApiRequest,
+                        apiKeyName: session.apiKeyName,
+                        clientIp: session.clientIp,
+                    };
+                    const res = await dispatch(pathname, ctx);
+                    send({ id, request_id: requestId, status: res.status, body: await res.json() });
+                } finally {
+                    state.inFlight--;
+                }
+            } catch (e) {
+                const error = toHttpError(e);
+                send({ id, request_id: requestId, status: error.status, body: errorBody(error) });
+            }
+            if (isShuttingDown() && state.inFlight === 0) {
+                closeForShutdown(socket);
+            }
+        });
+    };
+
+    socket.onclose = () => {
+        openSockets.delete(socket);
+    };
+
+    socket.onerror = (event) => {
+        logger.warn(`WebSocket error`, { client_ip: session.clientIp, error: (event as ErrorEvent).message });
+    };
+
+    return response;
+}
+
+// For shutdown, after isShuttingDown() turned true: new frames are refused, and each socket is
+// closed once its running requests are answered. Resolves when every socket is closed.
+export function closeWebSockets(): Promise<void> {
+    return Promise.all(Array.from(openSockets, ([socket, state]) => new Promise<void>(resolve => {
+        if (socket.readyState === WebSocket.CLOSED) {
+            resolve();
+            return;
+        }
+        socket.addEventListener('close', () => resolve());
+        if (state.inFlight === 0) {
+            closeForShutdown(socket);
+        }
+    }))).then(() => {});
+}
\ No newline at end of file
@@ -1,51 +1,203 @@
-import type { WorkerWithStatus, Task } from "./types.ts";
+import type { WorkerWithStatus, Task, WorkerPoolStats, WorkerRequest } from "./types.ts";
+import { ShuttingDownError, WorkerPoolFullError } from "./errors.ts";
+import { workerBusy, workerQueueDepth, workerRespawns } from "./metrics.ts";
+import { getRequestId, logger } from "./logger.ts";
 
 const CONCURRENCY = parseInt(Deno.env.get("MAX_THREADS") || "", 10) || navigator.hardwareConcurrency || 1;
+const SANDBOX_CONCURRENCY = parseInt(Deno.env.get("SANDBOX_THREADS") || "", 10) || 1;
+const TASK_TIMEOUT_MS = parseInt(Deno.env.get("WORKER_TASK_TIMEOUT_MS") || "", 10) || 30_000;
+const MAX_QUEUE_SIZE = parseInt(Deno.env.get("MAX_QUEUE_SIZE") || "", 10) || 1000;
+const QUEUE_RETRY_AFTER_SECONDS = parseInt(Deno.env.get("QUEUE_RETRY_AFTER_SECONDS") || "", 10) || 5;
 
-const workers: WorkerWithStatus[] = [];
-const taskQueue: Task[] = [];
+const workerUrl = new URL("../worker.ts", import.meta.url).href;
 
-function dispatch() {
-    const idleWorker = workers.find(w => w.isIdle);
-    if (!idleWorker || taskQueue.length === 0) {
-        return;
+export interface ExecOptions {
+    timeoutMs?: number;
+    // Low priority tasks (e.g. prewarming) only run when no live traffic is waiting
+    lowPriority?: boolean;
+}
+
+export class WorkerPool {
+    private workers: WorkerWithStatus[] = [];
+    private taskQueue: Task[] = [];
+    private lowPriorityQueue: Task[] = [];
+    private draining = false;
+    private idleWaiters: (() => void)[] = [];
+
+    constructor(private poolName: string, private concurrency: number, private workerOptions: WorkerOptions = {}) {}
+
+    get name(): string {
+        return this.poolName;
+    }
+
+    stats(): WorkerPoolStats {
+        return {
+            workers: this.workers.length,
+            busy: this.workers.filter(w => !w.isIdle).length,
+            queued: this.taskQueue.length,
+            queued_low_priority: this.lowPriorityQueue.length,
+        };
+    }
+
+    initialize() {
+        for (let i = 0; i < this.concurrency; i++) {
+            this.workers.push(this.createWorker());
+        }
+        this.updateMetrics();
+        logger.info(`Initialized ${this.concurrency} ${this.poolName} workers`);
+    }
+
+    exec<T>(message: WorkerRequest, { timeoutMs = TASK_TIMEOUT_MS, lowPriority = false }: ExecOptions = {}): Promise<T> {
+        const queue = lowPriority ? this.lowPriorityQueue : this.taskQueue;
+        if (lowPriority && this.draining) {
+            return Promise.reject(new ShuttingDownError());
+        }
+        if (queue.length >= MAX_QUEUE_SIZE) {
+            return Promise.reject(new WorkerPoolFullError(QUEUE_RETRY_AFTER_SECONDS));
+        }
+        return new Promise((resolve, reject) => {
+            queue.push({ message, timeoutMs, requestId: getRequestId(), resolve: resolve as (output: unknown) => void, reject });
+            this.dispatch();
+        });
+    }
+
+    // For shutdown: resolves once no task is queued or running. Queued low priority tasks
+    // (prewarming) are failed instead of waited for, and no new ones are accepted.
+    drain(): Promise<void> {
+        this.draining = true;
+        for (const task of this.lowPriorityQueue.splice(0)) {
+            task.reject(new ShuttingDownError());
+        }
+        this.updateMetrics();
+        if (this.isIdle()) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    // Stops every worker. Tasks still queued or running are failed, their requests get SHUTTING_DOWN
+    terminate() {
+        const error = new ShuttingDownError();
+        for (const worker of this.workers) {
+            clearTimeout(worker.taskTimer);
+            worker.currentTask?.reject(error);
+            worker.terminate();
+        }
+        for (const task of [...this.taskQueue.splice(0), ...this.lowPriorityQueue.splice(0)]) {
+            task.reject(error);
+        }
+        if (this.workers.length > 0) {
+            logger.info(`Terminated ${this.workers.length} ${this.poolName} workers`);
+        }
+        this.workers = [];
+        this.updateMetrics();
     }
 
-    const task = taskQueue.shift()!;
-    idleWorker.isIdle = false;
+    private isIdle(): boolean {
+        return this.taskQueue.length === 0 && this.lowPriorityQueue.length === 0 && this.workers.every(w => w.isIdle);
+    }
+
+    private updateMetrics() {
+        workerQueueDepth.labels({ pool: this.poolName, priority: 'normal' }).set(this.taskQueue.length);
+        workerQueueDepth.labels({ pool: this.poolName, priority: 'low' }).set(this.lowPriorityQueue.length);
+        workerBusy.labels({ pool: this.poolName }).set(this.workers.filter(w => !w.isIdle).length);
+    }
+
+    private createWorker(): WorkerWithStatus {
+        const worker: WorkerWithStatus = new Worker(workerUrl, { ...this.workerOptions, type: "module" });
+        worker.isIdle = true;
+
+        worker.addEventListener("message", (e: MessageEvent) => {
+            const task = worker.currentTask;
+            if (!task) {
+                return;
+            }
+            clearTimeout(worker.taskTimer);
+            worker.currentTask = undefined;
+            worker.isIdle = true;
 
-    const messageHandler = (e: MessageEvent) => {
-        idleWorker.removeEventListener("message", messageHandler);
-        idleWorker.isIdle = true;
+            const { type, data } = e.data;
+            if (type === 'success') {
+                task.resolve(data);
+            } else {
+                logger.error("Received error from worker", { request_id: task.requestId, pool: this.poolName, task: task.message.type, error: data.message });
+                const err = new Error(data.message);
+                err.stack = data.stack;
+                task.reject(err);
+            }
+            this.dispatch(); // keep checking
+        });
 
-        const { type, data } = e.data;
-        if (type === 'success') {
-            task.resolve(data);
-        } else {
-            console.error("Received error from worker:", data);
-            const err = new Error(data.message);
-            err.stack = data.stack;
-            task.reject(err);
+        worker.addEventListener("error", (e: ErrorEvent) => {
+            // Stop the error from propagating up and taking the main thread down with it
+            e.preventDefault();
+            this.replaceWorker(worker, 'error', new Error(`Worker crashed: ${e.message}`));
+        });
+
+        worker.addEventListener("messageerror", () => {
+            this.replaceWorker(worker, 'messageerror', new Error("Worker sent a message that could not be deserialized"));
+        });
+
+        return worker;
+    }
+
+    // Terminates a stuck or crashed worker, fails its task and puts a fresh worker in its place.
+    private replaceWorker(worker: WorkerWithStatus, reason: string, error: Error) {
+        const index = this.workers.indexOf(worker);
+        if (index === -1) {
+            // Already replaced, e.g. a timeout followed by a late error event
+            return;
         }
-        dispatch(); // keep checking
-    };
 
-    idleWorker.addEventListener("message", messageHandler);
-    idleWorker.postMessage(task.data);
+        clearTimeout(worker.taskTimer);
+        const task = worker.currentTask;
+        worker.currentTask = undefined;
+        worker.terminate();
+
+        this.workers[index] = this.createWorker();
+        workerRespawns.labels({ pool: this.poolName, reason }).inc();
+        logger.error(`Replaced ${this.poolName} worker after ${reason}`, { request_id: task?.requestId, task: task?.message.type, error: error.message });
+
+        task?.reject(error);
+        this.dispatch();
+    }
+
+    private dispatch() {
+        let idleWorker = this.workers.find(w => w.isIdle);
+        while (idleWorker && (this.taskQueue.length > 0 || this.lowPriorityQueue.length > 0)) {
+            const worker = idleWorker;
+            const task = this.taskQueue.shift() ?? this.lowPriorityQueue.shift()!;
+            worker.isIdle = false;
+            worker.currentTask = task;
+            worker.taskTimer = setTimeout(() => {
+                this.replaceWorker(worker, 'timeout', new Error(`Worker task timed out after ${task.timeoutMs}ms`));
+            }, task.timeoutMs);
+            worker.postMessage(task.message);
+
+            idleWorker = this.workers.find(w => w.isIdle);
+        }
+        this.updateMetrics();
+        if (this.idleWaiters.length > 0 && this.isIdle()) {
+            for (const resolve of this.idleWaiters.splice(0)) {
+                resolve();
+            }
+        }
+    }
 }
 
-export function execInPool(data: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-        taskQueue.push({ data, resolve, reject });
-        dispatch();
-    });
+export const workerPool = new WorkerPool('main', CONCURRENCY);
+
+// Workers without any permissions, used to run solver code taken from player scripts.
+// Needs the --unstable-worker-options flag.
+export const sandboxPool = new WorkerPool('sandbox', SANDBOX_CONCURRENCY, { deno: { permissions: "none" } });
+
+export function execInPool(data: string, options: ExecOptions = {}): Promise<string> {
+    return workerPool.exec<string>({ type: 'preprocess', data }, options);
 }
 
-export function initializeWorkers() {
-    for (let i = 0; i < CONCURRENCY; i++) {
-        const worker: WorkerWithStatus = new Worker(new URL("../worker.ts", import.meta.url).href, { type: "module" });
-        worker.isIdle = true;
-        workers.push(worker);
+export function initializeWorkers(options: { sandbox?: boolean } = {}) {
+    workerPool.initialize();
+    if (options.sandbox) {
+        sandboxPool.initialize();
     }
-    console.log(`Initialized ${CONCURRENCY} workers`);
-}
\ No newline at end of file
+}
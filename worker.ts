@@ -1,8 +1,49 @@
-import { preprocessPlayer } from "./ejs/src/yt/solver/solvers.ts";
+import { getFromPrepared, preprocessPlayer } from "./ejs/src/yt/solver/solvers.ts";
+import type { PreparedSolvers, WorkerRequest } from "./src/types.ts";
 
-self.onmessage = (e: MessageEvent<string>) => {
+// Solvers already built in this worker, keyed by player cache key.
+// The main thread only sends the player script when we report it as not loaded.
+// Sandboxed workers have no env access, so this is not configurable.
+const MAX_PREPARED = 50;
+const prepared = new Map<string, PreparedSolvers | null>();
+
+function loadSolvers(key: string, player: string): PreparedSolvers | null {
+    const solvers = getFromPrepared(player);
+    prepared.delete(key);
+    prepared.set(key, solvers);
+    if (prepared.size > MAX_PREPARED) {
+        prepared.delete(prepared.keys().next().value!);
+    }
+    return solvers;
+}
+
+function handle(message: WorkerRequest): unknown {
+    switch (message.type) {
+        case 'ping':
+            return 'pong';
+        case 'preprocess':
+            return preprocessPlayer(message.data);
+        case 'prepare': {
+            const solvers = loadSolvers(message.key, message.player);
+            return solvers ? { sig: !!solvers.sig, n: !!solvers.n } : null;
+        }
+        case 'solve': {
+            if (message.player === undefined && !prepared.has(message.key)) {
+                return { loaded: false };
+            }
+            const solvers = message.player !== undefined ? loadSolvers(message.key, message.player) : prepared.get(message.key);
+            const solver = solvers?.[message.solver];
+            if (!solver) {
+                throw new Error(`No ${message.solver} solver found for this player`);
+            }
+            return { loaded: true, output: solver(message.input) };
+        }
+    }
+}
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
     try {
-        const output = preprocessPlayer(e.data);
+        const output = handle(e.data);
         self.postMessage({ type: 'success', data: output });
     } catch (error) {
         self.postMessage({
@@ -12,4 +53,4 @@ self.onmessage = (e: MessageEvent<string>) => {
             }
         });
     }
-};
\ No newline at end of file
+};